@@ -0,0 +1,256 @@
+// API route for importing an image from a URL
+// Fetches server-side so the browser isn't blocked by the host's CORS policy
+
+import { lookup } from 'dns/promises';
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP } from 'net';
+import type { LookupFunction } from 'net';
+import { extensionForType } from '../../src/lib/image';
+
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 20000;
+
+class ImportError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+// Every special-purpose range, not just the RFC 1918 ones: some networks
+// route benchmarking or documentation space internally
+function isPrivateIPv4(octets: number[]): boolean {
+  const [a, b, c] = octets;
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && (c === 0 || c === 2)) // Protocol assignments, TEST-NET-1
+    || (a === 198 && (b === 18 || b === 19)) // Benchmarking
+    || (a === 198 && b === 51 && c === 100) // TEST-NET-2
+    || (a === 203 && b === 0 && c === 113); // TEST-NET-3
+}
+
+// Expands any valid IPv6 form (compressed, zone id, dotted IPv4 tail) to its
+// eight 16-bit groups, so ranges are checked on the value and not the text
+export function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - start.length - end.length).fill(0);
+  return [...start, ...zeros, ...end];
+}
+
+const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+// Loopback, private, link-local and other non-public ranges, including IPv4
+// addresses carried inside IPv6 ones (mapped, compatible, NAT64 and 6to4)
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address.split('%')[0]);
+  if (version === 4) return isPrivateIPv4(address.split('.').map(Number));
+  if (version !== 6) return true;
+
+  const groups = ipv6Groups(address);
+  const leadingZeros = groups.findIndex(group => group !== 0);
+  if (leadingZeros === -1 || leadingZeros >= 6) return isPrivateIPv4(embeddedIPv4(groups[6], groups[7])); // ::, ::1, ::a.b.c.d
+  if (leadingZeros === 5 && groups[5] === 0xffff) return isPrivateIPv4(embeddedIPv4(groups[6], groups[7])); // ::ffff:a.b.c.d
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7])); // 64:ff9b::a.b.c.d
+  }
+  if (groups[0] === 0x2002) return isPrivateIPv4(embeddedIPv4(groups[1], groups[2])); // 6to4
+
+  const first = groups[0];
+  return (first & 0xfe00) === 0xfc00 // Unique local
+    || (first & 0xffc0) === 0xfe80 // Link-local
+    || (first & 0xffc0) === 0xfec0 // Site-local
+    || (first & 0xff00) === 0xff00; // Multicast
+}
+
+// Stops the route being used to reach internal services. Returns the checked
+// address so the request connects to it rather than resolving the name
+// again, which a rebinding DNS server could answer differently.
+async function resolvePublicAddress(url: URL): Promise<ResolvedAddress> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImportError('Only http and https URLs can be imported');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: ResolvedAddress[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) as 4 | 6 }];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(result => ({ address: result.address, family: result.family as 4 | 6 }));
+    } catch {
+      throw new ImportError(`Could not find the server ${host}`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(result => isPrivateAddress(result.address))) {
+    throw new ImportError('That address cannot be imported');
+  }
+  return addresses[0];
+}
+
+// TLS still verifies the certificate against the hostname; only the
+// connection target is fixed
+function requestPinned(url: URL, pinned: ResolvedAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    request(url, { headers: { Accept: 'image/*' }, lookup: pinnedLookup, signal }, resolve)
+      .on('error', reject)
+      .end();
+  });
+}
+
+// Each redirect hop is checked again since a public URL can redirect inward
+async function fetchFollowingRedirects(url: URL, signal: AbortSignal): Promise<{ response: IncomingMessage; url: URL }> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await requestPinned(current, await resolvePublicAddress(current), signal);
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume(); // Discard the redirect body
+      current = new URL(location, current);
+      continue;
+    }
+    return { response, url: current };
+  }
+  throw new ImportError('Too many redirects');
+}
+
+// Reads the body but gives up as soon as it passes the size limit
+async function readLimited(response: IncomingMessage): Promise<Uint8Array> {
+  const declared = Number(response.headers['content-length']);
+  if (declared > MAX_IMAGE_BYTES) {
+    response.destroy();
+    throw new ImportError('Image is larger than 25 MB', 413);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.length;
+    if (total > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new ImportError('Image is larger than 25 MB', 413);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function fileNameFor(url: URL, mimeType: string): string {
+  let segment = url.pathname.split('/').pop() || '';
+  try {
+    segment = decodeURIComponent(segment);
+  } catch {
+    // Keep the encoded form when it isn't valid percent-encoding
+  }
+  segment = segment.replace(/[\\/:*?"<>|]/g, '_');
+  if (!segment) return `imported-image.${extensionForType(mimeType)}`;
+  return /\.\w{2,5}$/.test(segment) ? segment : `${segment}.${extensionForType(mimeType)}`;
+}
+
+interface ImportRequest {
+  method?: string;
+  body: { url?: unknown };
+}
+
+interface ImportResponse {
+  setHeader(name: string, value: string): void;
+  status(code: number): ImportResponse;
+  json(body: unknown): void;
+  end(): void;
+}
+
+export default async function handler(req: ImportRequest, res: ImportResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  try {
+    const { url } = req.body;
+
+    if (!url || typeof url !== 'string') {
+      res.status(400).json({ error: 'Missing required parameters' });
+      return;
+    }
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      res.status(400).json({ error: 'That is not a valid URL' });
+      return;
+    }
+
+    const { response, url: finalUrl } = await fetchFollowingRedirects(target, signal);
+    const status = response.statusCode || 0;
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new ImportError(`The server responded with HTTP ${status}`, 502);
+    }
+
+    const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (!mimeType.startsWith('image/')) {
+      response.destroy();
+      throw new ImportError('That URL does not point to an image', 415);
+    }
+
+    const bytes = await readLimited(response);
+    const dataUrl = `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+
+    res.status(200).json({
+      success: true,
+      image: dataUrl,
+      format: mimeType,
+      fileName: fileNameFor(finalUrl, mimeType),
+    });
+
+  } catch (error) {
+    if (error instanceof ImportError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing image:', error);
+    const timedOut = signal.aborted;
+    res.status(timedOut ? 504 : 500).json({
+      error: timedOut ? 'The image took too long to download' : 'Failed to import image',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
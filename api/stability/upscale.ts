@@ -1,7 +1,52 @@
 // API route for Stability AI image upscaling
 // This can be deployed as a Vercel API route or Netlify function
 
-import { StabilityAIService } from '../../src/services/stabilityAI';
+import { createUpscaleProviders } from '../../src/services/upscalers';
+import { prepareInput } from '../../src/services/prepareInput';
+import { applyFilenameTemplate, stripExtension } from '../../src/lib/filenameTemplate';
+import { extensionForType } from '../../src/lib/image';
+import { createHash } from 'crypto';
+
+interface CachedUpscale {
+  image: string; // Data URL
+  format: string;
+  provider: string;
+  inputChanges: string[];
+}
+
+// Recent results keyed by source hash and settings, so a re-upload of the
+// same photo doesn't go to the provider (and cost credits) again. Lives as
+// long as the server instance; a Map keeps insertion order, which makes the
+// oldest entry the first one.
+const MAX_CACHE_BYTES = 256 * 1024 * 1024;
+const resultCache = new Map<string, CachedUpscale>();
+let cachedBytes = 0;
+
+function getCached(key: string): CachedUpscale | undefined {
+  const entry = resultCache.get(key);
+  if (entry) {
+    // Move to the end so it is evicted last
+    resultCache.delete(key);
+    resultCache.set(key, entry);
+  }
+  return entry;
+}
+
+function setCached(key: string, entry: CachedUpscale): void {
+  if (entry.image.length > MAX_CACHE_BYTES) return;
+  const previous = resultCache.get(key);
+  if (previous) {
+    cachedBytes -= previous.image.length;
+    resultCache.delete(key);
+  }
+  resultCache.set(key, entry);
+  cachedBytes += entry.image.length;
+  for (const [oldestKey, oldest] of resultCache) {
+    if (cachedBytes <= MAX_CACHE_BYTES) break;
+    resultCache.delete(oldestKey);
+    cachedBytes -= oldest.image.length;
+  }
+}
 
 export default async function handler(req: any, res: any) {
   // Enable CORS
@@ -20,7 +65,7 @@ export default async function handler(req: any, res: any) {
   }
 
   try {
-    const { image, scale, format, userId } = req.body;
+    const { image, scale, format, mode, userId, provider, fileName, nameTemplate, index } = req.body;
 
     if (!image || !scale || !userId) {
       res.status(400).json({ error: 'Missing required parameters' });
@@ -30,30 +75,85 @@ export default async function handler(req: any, res: any) {
     // Verify user has sufficient credits (check with Supabase)
     // This would typically involve checking the user's credit balance
     
-    const stabilityAPI = new StabilityAIService(process.env.STABILITY_API_KEY || '');
-    
-    // Convert base64 image to file
-    const imageBuffer = Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64');
-    const imageFile = new File([imageBuffer], 'image.png', { type: 'image/png' });
+    const providers = createUpscaleProviders({
+      stabilityApiKey: process.env.STABILITY_API_KEY || '',
+      selfHostedUrl: process.env.UPSCALER_SERVER_URL || '',
+      selfHostedApiKey: process.env.UPSCALER_SERVER_KEY || '',
+      defaultProviderId: process.env.UPSCALE_PROVIDER || '',
+    });
+
+    if (provider && !providers.has(provider)) {
+      res.status(400).json({ error: `Unknown upscale provider: ${provider}` });
+      return;
+    }
+
+    const upscaler = providers.get(provider);
+    if (!upscaler.isAvailable()) {
+      res.status(400).json({ error: `Upscale provider ${upscaler.id} is not available on this server` });
+      return;
+    }
     
-    const upscaledBlob = await stabilityAPI.upscaleImage(imageFile, {
+    // Convert base64 image to file, keeping the type the client declared
+    const mimeType = image.match(/^data:(image\/[\w+.-]+);base64,/)?.[1] || 'image/png';
+    const imageBuffer = Buffer.from(image.replace(/^data:image\/[\w+.-]+;base64,/, ''), 'base64');
+    const uploadedFile = new File([imageBuffer], 'image', { type: mimeType });
+
+    const cacheKey = [
+      createHash('sha256').update(imageBuffer).digest('hex'),
+      upscaler.id,
+      mode || '-',
       scale,
-      format: format || 'png'
-    });
+      format || 'png',
+    ].join('|');
+    let upscaled = getCached(cacheKey);
+    const cached = !!upscaled;
+
+    if (!upscaled) {
+      // Strip metadata etc. so the upload fits the provider's limits
+      const limits = upscaler.getInputLimits?.(mode, scale);
+      const { file: imageFile, changes: inputChanges } = limits
+        ? await prepareInput(uploadedFile, limits)
+        : { file: uploadedFile, changes: [] };
 
-    // Convert blob to base64 for response
-    const buffer = await upscaledBlob.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString('base64');
-    const dataUrl = `data:${upscaledBlob.type};base64,${base64}`;
+      const upscaledBlob = await upscaler.upscaleImage(imageFile, {
+        scale,
+        format: format || 'png',
+        mode
+      });
+
+      // Convert blob to base64 for response
+      const buffer = await upscaledBlob.arrayBuffer();
+      const base64 = Buffer.from(buffer).toString('base64');
+      upscaled = {
+        image: `data:${upscaledBlob.type};base64,${base64}`,
+        format: upscaledBlob.type,
+        provider: upscaler.id,
+        inputChanges,
+      };
+      setCached(cacheKey, upscaled);
+    }
+
+    // Name the result the same way the client would download it
+    const resultFileName = applyFilenameTemplate(nameTemplate || '', {
+      name: stripExtension(fileName || 'image'),
+      scale,
+      index: index || 1,
+      ext: extensionForType(upscaled.format),
+      mode: mode || upscaler.id,
+    });
 
-    // Update user credits in Supabase
+    // Update user credits in Supabase (skipped for cached results)
     // This would typically involve deducting credits from the user's account
 
     res.status(200).json({
       success: true,
-      image: dataUrl,
-      format: upscaledBlob.type,
-      scale: scale
+      image: upscaled.image,
+      format: upscaled.format,
+      scale: scale,
+      provider: upscaled.provider,
+      fileName: resultFileName,
+      inputChanges: upscaled.inputChanges,
+      cached
     });
 
   } catch (error) {
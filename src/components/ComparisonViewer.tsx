@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize, Grid3x3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ComparisonViewerProps {
+  original: string;
+  processed: string;
+  className?: string;
+}
+
+interface ViewState {
+  zoom: number; // 1 = one output pixel per screen pixel
+  x: number; // Screen position of the image's top-left corner
+  y: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+const GRID_MIN_ZOOM = 4; // Below this the grid lines would hide the pixels
+const PAN_STEP = 50;
+const SPLIT_STEP = 5;
+
+// Keeps the image covering the viewport when it's larger, centred when smaller
+function clampView(view: ViewState, image: Size, viewport: Size): ViewState {
+  const clampAxis = (position: number, imageSize: number, viewportSize: number) => {
+    const scaled = imageSize * view.zoom;
+    if (scaled <= viewportSize) return (viewportSize - scaled) / 2;
+    return Math.min(0, Math.max(viewportSize - scaled, position));
+  };
+  return {
+    zoom: view.zoom,
+    x: clampAxis(view.x, image.width, viewport.width),
+    y: clampAxis(view.y, image.height, viewport.height),
+  };
+}
+
+// Both images share one transform, so panning and zooming are always in sync.
+// The original is stretched to the upscaled size; the split shows the
+// upscaled image to the right of the handle.
+const ComparisonViewer = ({ original, processed, className }: ComparisonViewerProps) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'split'; startX: number; startY: number; view: ViewState } | null>(null);
+  const [loadedImage, setLoadedImage] = useState<(Size & { src: string }) | null>(null);
+  const [viewportSize, setViewportSize] = useState<Size | null>(null);
+  const [view, setView] = useState<ViewState | null>(null);
+  const [split, setSplit] = useState(50);
+  const [showGrid, setShowGrid] = useState(false);
+
+  // Ignore the size of a previous result until the new one has loaded
+  const imageSize = loadedImage?.src === processed ? loadedImage : null;
+  const fitZoom = imageSize && viewportSize
+    ? Math.min(viewportSize.width / imageSize.width, viewportSize.height / imageSize.height)
+    : 1;
+  const minZoom = Math.min(fitZoom, 1);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Start fitted, and start over when a different result is shown
+  useEffect(() => {
+    setView(null);
+  }, [processed]);
+
+  useEffect(() => {
+    if (imageSize && viewportSize) {
+      setView(current => clampView(current || { zoom: fitZoom, x: 0, y: 0 }, imageSize, viewportSize));
+    }
+  }, [imageSize, viewportSize, fitZoom]);
+
+  const zoomTo = useCallback((zoom: number, centerX?: number, centerY?: number) => {
+    if (!imageSize || !viewportSize) return;
+    setView(current => {
+      if (!current) return current;
+      const nextZoom = Math.min(MAX_ZOOM, Math.max(minZoom, zoom));
+      // Keep the point under the cursor (or the viewport centre) still
+      const x = centerX ?? viewportSize.width / 2;
+      const y = centerY ?? viewportSize.height / 2;
+      const imageX = (x - current.x) / current.zoom;
+      const imageY = (y - current.y) / current.zoom;
+      return clampView({ zoom: nextZoom, x: x - imageX * nextZoom, y: y - imageY * nextZoom }, imageSize, viewportSize);
+    });
+  }, [imageSize, viewportSize, minZoom]);
+
+  const zoomBy = useCallback((factor: number, centerX?: number, centerY?: number) => {
+    if (view) zoomTo(view.zoom * factor, centerX, centerY);
+  }, [view, zoomTo]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    if (!imageSize || !viewportSize) return;
+    setView(current => current && clampView({ ...current, x: current.x + dx, y: current.y + dy }, imageSize, viewportSize));
+  }, [imageSize, viewportSize]);
+
+  // React registers wheel listeners as passive, which can't stop the page scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomBy(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, event.clientX - rect.left, event.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [zoomBy]);
+
+  const splitFromPointer = (clientX: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (rect) {
+      setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!view) return;
+    const onHandle = (event.target as HTMLElement).closest('[data-split-handle]');
+    dragRef.current = { mode: onHandle ? 'split' : 'pan', startX: event.clientX, startY: event.clientY, view };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !imageSize || !viewportSize) return;
+    if (drag.mode === 'split') {
+      splitFromPointer(event.clientX);
+    } else {
+      setView(clampView({
+        ...drag.view,
+        x: drag.view.x + event.clientX - drag.startX,
+        y: drag.view.y + event.clientY - drag.startY,
+      }, imageSize, viewportSize));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const handled = (() => {
+      switch (event.key) {
+        case 'ArrowLeft':
+          if (event.shiftKey) panBy(PAN_STEP, 0);
+          else setSplit(value => Math.max(0, value - SPLIT_STEP));
+          return true;
+        case 'ArrowRight':
+          if (event.shiftKey) panBy(-PAN_STEP, 0);
+          else setSplit(value => Math.min(100, value + SPLIT_STEP));
+          return true;
+        case 'ArrowUp':
+          panBy(0, PAN_STEP);
+          return true;
+        case 'ArrowDown':
+          panBy(0, -PAN_STEP);
+          return true;
+        case '+':
+        case '=':
+          zoomBy(ZOOM_STEP);
+          return true;
+        case '-':
+          zoomBy(1 / ZOOM_STEP);
+          return true;
+        case '0':
+          zoomTo(fitZoom);
+          return true;
+        case '1':
+          zoomTo(1);
+          return true;
+        case 'g':
+        case 'G':
+          setShowGrid(value => !value);
+          return true;
+        default:
+          return false;
+      }
+    })();
+    if (handled) event.preventDefault();
+  };
+
+  const zoom = view?.zoom ?? fitZoom;
+  const pixelated = zoom >= 2;
+  const gridVisible = showGrid && zoom >= GRID_MIN_ZOOM;
+  const imageStyle: React.CSSProperties = imageSize ? {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: imageSize.width,
+    height: imageSize.height,
+    maxWidth: 'none',
+    transformOrigin: '0 0',
+    transform: view ? `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` : undefined,
+    imageRendering: pixelated ? 'pixelated' : 'auto',
+  } : { visibility: 'hidden' };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-2 mb-2 flex-wrap">
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoomBy(1 / ZOOM_STEP)}
+            disabled={zoom <= minZoom}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-white/80 text-sm w-14 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoomBy(ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoomTo(fitZoom)}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <Maximize className="w-4 h-4 mr-1" />
+            Fit
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => zoomTo(1)}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            1:1
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowGrid(value => !value)}
+            disabled={zoom < GRID_MIN_ZOOM}
+            className={`border-white/20 text-white hover:bg-white/20 ${gridVisible ? 'bg-white/30' : 'bg-white/10'}`}
+            aria-pressed={showGrid}
+          >
+            <Grid3x3 className="w-4 h-4 mr-1" />
+            Pixel grid
+          </Button>
+        </div>
+        <span className="text-xs text-white/50">
+          ←/→ split · Shift+arrows pan · +/− zoom · 0 fit · 1 actual size · G grid
+        </span>
+      </div>
+
+      <div
+        ref={viewportRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Before and after comparison"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={(event) => {
+          const rect = event.currentTarget.getBoundingClientRect();
+          zoomTo(zoom < 1 ? 1 : fitZoom, event.clientX - rect.left, event.clientY - rect.top);
+        }}
+        onKeyDown={handleKeyDown}
+        className="relative h-[60vh] min-h-[320px] overflow-hidden rounded-lg bg-black/40 cursor-grab active:cursor-grabbing select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+      >
+        <img src={original} alt="Original" draggable={false} style={imageStyle} />
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+          <img
+            src={processed}
+            alt="Upscaled"
+            draggable={false}
+            style={imageStyle}
+            onLoad={(event) => setLoadedImage({
+              src: processed,
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight,
+            })}
+          />
+        </div>
+
+        {gridVisible && view && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={{
+              backgroundImage: 'linear-gradient(to right, rgba(255,255,255,0.25) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.25) 1px, transparent 1px)',
+              backgroundSize: `${view.zoom}px ${view.zoom}px`,
+              backgroundPosition: `${view.x}px ${view.y}px`,
+            }}
+          />
+        )}
+
+        <div className="absolute top-2 left-2 bg-black/60 text-white px-2 py-1 rounded text-xs pointer-events-none">
+          Original
+        </div>
+        <div className="absolute top-2 right-2 bg-green-500/90 text-white px-2 py-1 rounded text-xs pointer-events-none">
+          Upscaled
+        </div>
+
+        <div
+          data-split-handle
+          className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+          style={{ left: `${split}%` }}
+        >
+          <div className="w-0.5 h-full bg-white shadow" />
+          <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-gray-700 text-xs">
+            ↔
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
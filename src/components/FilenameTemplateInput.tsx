@@ -0,0 +1,46 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS } from '@/lib/filenameTemplate';
+
+interface FilenameTemplateInputProps {
+  value: string;
+  onChange: (template: string) => void;
+  preview: string; // Example file name produced by the current template
+  label?: string;
+}
+
+const FilenameTemplateInput = ({ value, onChange, preview, label = 'File Names' }: FilenameTemplateInputProps) => {
+  // Clicking a token appends it, which is quicker than typing the braces
+  const insertToken = (token: string) => onChange(`${value}{${token}}`);
+
+  return (
+    <div>
+      <label className="text-white/90 text-sm font-medium mb-2 block">
+        {label}
+      </label>
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={DEFAULT_FILENAME_TEMPLATE}
+        className="bg-white/10 border-white/20 text-white"
+      />
+      <div className="flex flex-wrap gap-1 mt-2">
+        {FILENAME_TOKENS.map((token) => (
+          <button
+            key={token}
+            type="button"
+            onClick={() => insertToken(token)}
+            className="text-xs px-1.5 py-0.5 rounded bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
+          >
+            {`{${token}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-white/60 mt-1 truncate" title={preview}>
+        Example: {preview}
+      </p>
+    </div>
+  );
+};
+
+export default FilenameTemplateInput;
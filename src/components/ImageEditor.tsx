@@ -0,0 +1,367 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, FlipHorizontal, FlipVertical, Crop } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CropRect,
+  ImageEdit,
+  NO_EDIT,
+  Rotation,
+  drawRotated,
+  editedDimensions,
+  rotatedDimensions
+} from '@/lib/imageEdit';
+import type { ImageDimensions } from '@/lib/image';
+
+interface ImageEditorProps {
+  file: File | null; // The editor is open while a file is set
+  value?: ImageEdit;
+  onApply: (edit: ImageEdit) => void;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+const ASPECT_RATIOS = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: 'original', label: 'Original', ratio: null },
+  { id: '1:1', label: 'Square (1:1)', ratio: 1 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '3:4', label: '3:4', ratio: 3 / 4 },
+  { id: '3:2', label: '3:2', ratio: 3 / 2 },
+  { id: '2:3', label: '2:3', ratio: 2 / 3 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+];
+
+const PREVIEW_MAX_WIDTH = 720;
+const PREVIEW_MAX_HEIGHT = 460;
+const MIN_CROP_SIZE = 16; // Image pixels; smaller drags are treated as a click
+
+const HANDLES: { id: CropHandle; className: string }[] = [
+  { id: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { id: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { id: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { id: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// The rectangle spanned by dragging from `anchor` to `point`, grown to the
+// aspect ratio and then shrunk until it stays inside the image
+function rectFromPoints(anchor: Point, point: Point, ratio: number | null, bounds: ImageDimensions): CropRect {
+  let width = Math.abs(point.x - anchor.x);
+  let height = Math.abs(point.y - anchor.y);
+  if (ratio) {
+    if (height * ratio > width) width = height * ratio;
+    else height = width / ratio;
+    const maxWidth = point.x < anchor.x ? anchor.x : bounds.width - anchor.x;
+    const maxHeight = point.y < anchor.y ? anchor.y : bounds.height - anchor.y;
+    const fit = Math.min(1, width ? maxWidth / width : 1, height ? maxHeight / height : 1);
+    width *= fit;
+    height *= fit;
+  }
+  return {
+    x: point.x < anchor.x ? anchor.x - width : anchor.x,
+    y: point.y < anchor.y ? anchor.y - height : anchor.y,
+    width,
+    height,
+  };
+}
+
+// Largest centred rectangle of `ratio` inside `rect`
+function fitRatio(rect: CropRect, ratio: number): CropRect {
+  const width = Math.min(rect.width, rect.height * ratio);
+  const height = width / ratio;
+  return { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height };
+}
+
+function roundRect(rect: CropRect, bounds: ImageDimensions): CropRect {
+  const x = clamp(Math.round(rect.x), 0, bounds.width - 1);
+  const y = clamp(Math.round(rect.y), 0, bounds.height - 1);
+  return {
+    x,
+    y,
+    width: clamp(Math.round(rect.width), 1, bounds.width - x),
+    height: clamp(Math.round(rect.height), 1, bounds.height - y),
+  };
+}
+
+// Crop, rotate and flip before upscaling. Everything is previewed on a scaled
+// canvas; the crop is kept in full-size pixels of the rotated image.
+const ImageEditor = ({ file, value, onApply, onClose }: ImageEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: 'draw' | 'move' | 'resize'; anchor: Point; start: Point; crop?: CropRect } | null>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [draft, setDraft] = useState<ImageEdit>(NO_EDIT);
+  const [aspectId, setAspectId] = useState('free');
+
+  // Start from the saved edit every time the editor opens
+  useEffect(() => {
+    setDraft(value || NO_EDIT);
+    setAspectId('free');
+  }, [file, value]);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    createImageBitmap(file).then(
+      (result) => {
+        loaded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      },
+      (error) => console.warn('⚠️ Could not load image for editing:', error)
+    );
+    return () => {
+      cancelled = true;
+      loaded?.close();
+      setBitmap(null);
+    };
+  }, [file]);
+
+  const source = bitmap ? { width: bitmap.width, height: bitmap.height } : null;
+  const rotated = source ? rotatedDimensions(source, draft.rotation) : null;
+  const displayScale = rotated
+    ? Math.min(1, PREVIEW_MAX_WIDTH / rotated.width, PREVIEW_MAX_HEIGHT / rotated.height)
+    : 1;
+  const aspect = ASPECT_RATIOS.find(option => option.id === aspectId) || ASPECT_RATIOS[0];
+  const ratio = aspect.id === 'original' && rotated ? rotated.width / rotated.height : aspect.ratio;
+
+  const { rotation, flipHorizontal, flipVertical } = draft;
+
+  // Only the transform changes what is drawn; the crop is an overlay
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !bitmap) return;
+    const image = { width: bitmap.width, height: bitmap.height };
+    const turned = rotatedDimensions(image, rotation);
+    canvas.width = Math.round(turned.width * displayScale);
+    canvas.height = Math.round(turned.height * displayScale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    drawRotated(ctx, bitmap, image, { rotation, flipHorizontal, flipVertical }, displayScale);
+  }, [bitmap, rotation, flipHorizontal, flipVertical, displayScale]);
+
+  const setCrop = (crop: CropRect | undefined) => {
+    setDraft(current => ({ ...current, crop }));
+  };
+
+  const toImagePoint = (event: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / displayScale, 0, rotated?.width || 0),
+      y: clamp((event.clientY - rect.top) / displayScale, 0, rotated?.height || 0),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!rotated) return;
+    const point = toImagePoint(event);
+    const crop = draft.crop;
+    const handle = (event.target as HTMLElement).closest<HTMLElement>('[data-crop-handle]')?.dataset.cropHandle as CropHandle | undefined;
+
+    if (crop && handle) {
+      // Resize from the opposite corner
+      const anchor = {
+        x: handle.endsWith('w') ? crop.x + crop.width : crop.x,
+        y: handle.startsWith('n') ? crop.y + crop.height : crop.y,
+      };
+      dragRef.current = { mode: 'resize', anchor, start: point };
+    } else if (crop && point.x >= crop.x && point.x <= crop.x + crop.width && point.y >= crop.y && point.y <= crop.y + crop.height) {
+      dragRef.current = { mode: 'move', anchor: point, start: point, crop };
+    } else {
+      dragRef.current = { mode: 'draw', anchor: point, start: point };
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !rotated) return;
+    const point = toImagePoint(event);
+    if (drag.mode === 'move' && drag.crop) {
+      setCrop({
+        ...drag.crop,
+        x: clamp(drag.crop.x + point.x - drag.start.x, 0, rotated.width - drag.crop.width),
+        y: clamp(drag.crop.y + point.y - drag.start.y, 0, rotated.height - drag.crop.height),
+      });
+    } else {
+      setCrop(rectFromPoints(drag.anchor, point, ratio, rotated));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current || !rotated) return;
+    dragRef.current = null;
+    const crop = draft.crop;
+    if (!crop || crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE) {
+      setCrop(undefined);
+    } else {
+      setCrop(roundRect(crop, rotated));
+    }
+  };
+
+  const handleAspectChange = (id: string) => {
+    setAspectId(id);
+    if (!rotated) return;
+    const option = ASPECT_RATIOS.find(item => item.id === id);
+    const nextRatio = id === 'original' ? rotated.width / rotated.height : option?.ratio;
+    if (!nextRatio) return;
+    const base = draft.crop || { x: 0, y: 0, width: rotated.width, height: rotated.height };
+    setCrop(roundRect(fitRatio(base, nextRatio), rotated));
+  };
+
+  // Rotating moves every pixel, so an existing crop no longer makes sense
+  const rotate = (degrees: 90 | 270) => {
+    setDraft(current => ({ ...current, rotation: ((current.rotation + degrees) % 360) as Rotation, crop: undefined }));
+  };
+
+  const flip = (axis: 'horizontal' | 'vertical') => {
+    if (!rotated) return;
+    setDraft(current => {
+      const crop = current.crop && (axis === 'horizontal'
+        ? { ...current.crop, x: rotated.width - current.crop.x - current.crop.width }
+        : { ...current.crop, y: rotated.height - current.crop.y - current.crop.height });
+      return axis === 'horizontal'
+        ? { ...current, flipHorizontal: !current.flipHorizontal, crop }
+        : { ...current, flipVertical: !current.flipVertical, crop };
+    });
+  };
+
+  const handleApply = () => {
+    const crop = draft.crop;
+    const coversImage = !!crop && !!rotated && crop.x === 0 && crop.y === 0
+      && crop.width === rotated.width && crop.height === rotated.height;
+    onApply({ ...draft, crop: coversImage ? undefined : crop });
+  };
+
+  const output = source ? editedDimensions(source, draft) : null;
+  const coverage = output && rotated ? (output.width * output.height) / (rotated.width * rotated.height) : 1;
+  const crop = draft.crop;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl bg-gray-900 border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-white truncate pr-6 flex items-center gap-2">
+            <Crop className="w-5 h-5" />
+            Crop & Rotate {file && <span className="text-white/60 font-normal text-sm truncate">{file.name}</span>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => rotate(270)} className="bg-white/10 border-white/20 text-white hover:bg-white/20" title="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => rotate(90)} className="bg-white/10 border-white/20 text-white hover:bg-white/20" title="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => flip('horizontal')} className="bg-white/10 border-white/20 text-white hover:bg-white/20" title="Flip horizontally">
+            <FlipHorizontal className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => flip('vertical')} className="bg-white/10 border-white/20 text-white hover:bg-white/20" title="Flip vertically">
+            <FlipVertical className="w-4 h-4" />
+          </Button>
+          <div className="w-44">
+            <Select value={aspectId} onValueChange={handleAspectChange}>
+              <SelectTrigger className="bg-white/10 border-white/20 text-white h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                {ASPECT_RATIOS.map((option) => (
+                  <SelectItem key={option.id} value={option.id} className="text-white hover:bg-gray-800">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {crop && (
+            <Button size="sm" variant="ghost" onClick={() => setCrop(undefined)} className="text-white/70 hover:text-white hover:bg-white/10">
+              Clear crop
+            </Button>
+          )}
+        </div>
+
+        <div className="flex justify-center bg-black/40 rounded-lg p-2 min-h-[200px]">
+          {rotated ? (
+            <div
+              className="relative touch-none select-none cursor-crosshair overflow-hidden"
+              style={{ width: Math.round(rotated.width * displayScale), height: Math.round(rotated.height * displayScale) }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <canvas ref={canvasRef} className="block" />
+              {crop && (
+                <div
+                  className="absolute border-2 border-white cursor-move"
+                  style={{
+                    left: crop.x * displayScale,
+                    top: crop.y * displayScale,
+                    width: crop.width * displayScale,
+                    height: crop.height * displayScale,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                  }}
+                >
+                  {HANDLES.map((handle) => (
+                    <div
+                      key={handle.id}
+                      data-crop-handle={handle.id}
+                      className={`absolute w-3 h-3 bg-white rounded-sm ${handle.className}`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="self-center text-white/50 text-sm">Loading image...</p>
+          )}
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <p className="text-sm text-white/70">
+            {output && (
+              <>
+                Upscaling {output.width} × {output.height} px
+                {crop && ` (${Math.round(coverage * 100)}% of the image). Credits are only charged for the cropped area.`}
+              </>
+            )}
+            {!crop && ' Drag on the image to crop.'}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => { setDraft(NO_EDIT); setAspectId('free'); }}
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            >
+              Reset
+            </Button>
+            <Button variant="outline" onClick={onClose} className="bg-white/10 border-white/20 text-white hover:bg-white/20">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApply}
+              disabled={!bitmap}
+              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageEditor;
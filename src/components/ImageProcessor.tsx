@@ -1,12 +1,39 @@
-import React, { useState, useEffect } from 'react';
-import { Zap, Download, Settings, Star, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Zap, Download, Settings, Star, AlertCircle, X, Crop } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { stabilityAI, UpscaleProgress, StabilityAIService } from '@/services/stabilityAI';
+import { UpscaleProgress, UpscaleMode, StabilityAIService } from '@/services/stabilityAI';
+import { upscaleProviders } from '@/services/upscalers';
+import { isCancellation } from '@/services/upscaleProvider';
+import {
+  DEFAULT_OUTPUT_ENCODING,
+  OutputEncoding,
+  OutputSize,
+  PAPER_SIZES,
+  PRINT_DPI_OPTIONS,
+  TARGET_SIZE_PRESETS,
+  computeOutputDimensions,
+  toFormatOptions,
+  upscaleToSize
+} from '@/services/upscalePipeline';
+import { planTiles } from '@/services/tiledUpscale';
+import { extensionForType, formatScale, MAX_CANVAS_DIMENSION } from '@/lib/image';
+import { formatFileSize } from '@/lib/utils';
+import { applyFilenameTemplate, stripExtension } from '@/lib/filenameTemplate';
+import { applyImageEdit, describeEdit, editedDimensions, ImageEdit, isEdited, NO_EDIT } from '@/lib/imageEdit';
 import { useToast } from '@/hooks/use-toast';
+import { usePreference } from '@/hooks/use-preference';
+import { useSizeEstimate } from '@/hooks/use-size-estimate';
+import FilenameTemplateInput from './FilenameTemplateInput';
+import OutputFormatSettings from './OutputFormatSettings';
+import MetadataPolicySelect from './MetadataPolicySelect';
+import ComparisonViewer from './ComparisonViewer';
+import QualityReport from './QualityReport';
+import ImageEditor from './ImageEditor';
+import type { QualityMetrics } from '@/lib/qualityMetrics';
 
 interface ImageProcessorProps {
   originalImage: string;
@@ -17,9 +44,13 @@ interface ImageProcessorProps {
   progress: number;
   onProcessingComplete: (imageBlob: Blob, scale: number) => void;
   onProcessingError: (error: string) => void;
+  onProcessingCancelled?: () => void;
   onProgressUpdate?: (progress: number) => void;
 }
 
+// Largest enlargement that still holds up in print
+const MAX_PRINT_SCALE = 4;
+
 const ImageProcessor = ({
   originalImage,
   originalFile,
@@ -29,29 +60,146 @@ const ImageProcessor = ({
   progress,
   onProcessingComplete,
   onProcessingError,
+  onProcessingCancelled,
   onProgressUpdate
 }: ImageProcessorProps) => {
   const [selectedScale, setSelectedScale] = useState<number>(2);
+  const [sizeMode, setSizeMode] = useState<'scale' | 'target' | 'print'>('scale');
+  const [selectedPaperId, setSelectedPaperId] = useState<string>('a4');
+  const [printDpi, setPrintDpi] = useState<number>(300);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(TARGET_SIZE_PRESETS[1].id);
+  const [completedScale, setCompletedScale] = useState<number | null>(null);
+  const [completedMode, setCompletedMode] = useState<string | null>(null);
+  const [completedBlob, setCompletedBlob] = useState<Blob | null>(null);
+  const [completedMetadata, setCompletedMetadata] = useState<string[]>([]);
+  const [completedQuality, setCompletedQuality] = useState<QualityMetrics | null>(null);
+  const [encoding, setEncoding] = useState<OutputEncoding>(DEFAULT_OUTPUT_ENCODING);
+  const [selectedProviderId, setSelectedProviderId] = useState<string>(() => upscaleProviders.getDefault().id);
+  const [selectedMode, setSelectedMode] = useState<UpscaleMode | undefined>(() => upscaleProviders.getDefault().modes?.[0]?.id);
   const [originalDimensions, setOriginalDimensions] = useState<{width: number, height: number} | null>(null);
+  const [edit, setEdit] = useState<ImageEdit>(NO_EDIT);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editedPreview, setEditedPreview] = useState<{ edit: ImageEdit; file: File; url: string } | null>(null);
   const [processedDimensions, setProcessedDimensions] = useState<{width: number, height: number} | null>(null);
   const [progressMessage, setProgressMessage] = useState<string>('');
   const [estimatedCredits, setEstimatedCredits] = useState<number>(1);
+  const [nameTemplate, setNameTemplate] = usePreference('filenameTemplate');
+  const [metadataPolicy, setMetadataPolicy] = usePreference('metadataPolicy');
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  const providerOptions = upscaleProviders.listAvailable();
+  const selectedProvider = upscaleProviders.get(selectedProviderId);
+
   const scaleOptions = [
     { value: 2, label: '2x (Recommended)', description: 'Best quality/speed balance' },
     { value: 4, label: '4x (High Quality)', description: 'Better for smaller images' },
     { value: 8, label: '8x (Maximum)', description: 'Extreme upscaling' }
   ];
 
-  // Update estimated credits when scale changes
+  const selectedPaper = PAPER_SIZES.find(paper => paper.id === selectedPaperId) || PAPER_SIZES[0];
+
+  const outputSize = useMemo<OutputSize>(() => {
+    if (sizeMode === 'target') {
+      return TARGET_SIZE_PRESETS.find(preset => preset.id === selectedPresetId)?.size || TARGET_SIZE_PRESETS[0].size;
+    }
+    if (sizeMode === 'print') {
+      return { type: 'print', width: selectedPaper.width, height: selectedPaper.height, dpi: printDpi };
+    }
+    return { type: 'scale', scale: selectedScale };
+  }, [sizeMode, selectedPresetId, selectedScale, selectedPaper, printDpi]);
+
+  // What is actually sent: the crop, or the whole image turned as edited
+  const sourceDimensions = originalDimensions ? editedDimensions(originalDimensions, edit) : null;
+  const targetDimensions = sourceDimensions ? computeOutputDimensions(sourceDimensions, outputSize) : null;
+  const inputFile = editedPreview?.edit === edit ? editedPreview.file : originalFile;
+  const inputImage = editedPreview?.edit === edit ? editedPreview.url : originalImage;
+  const estimateFiles = useMemo(() => (inputFile ? [inputFile] : []), [inputFile]);
+  const estimatedSize = useSizeEstimate(estimateFiles, outputSize, encoding);
+  const effectiveScale = targetDimensions?.scale ?? selectedScale;
+  const resultScale = completedScale ?? effectiveScale;
+  const inputLimits = selectedProvider.getInputLimits?.(selectedMode, effectiveScale);
+  const tileCount = sourceDimensions && inputLimits
+    ? planTiles(sourceDimensions.width, sourceDimensions.height, inputLimits).length
+    : 1;
+
+  // Print checks, shown under the cost estimate
+  const isPrint = sizeMode === 'print';
+  const printTooLarge = isPrint && !!targetDimensions
+    && (targetDimensions.width > MAX_CANVAS_DIMENSION || targetDimensions.height > MAX_CANVAS_DIMENSION);
+  const printTooSoft = isPrint && effectiveScale > MAX_PRINT_SCALE;
+  const printWithoutDpi = isPrint && (encoding.format === 'webp' || encoding.format === 'avif');
+
+  // Modes the provider accepts for this image at a given scale (null when unknown)
+  const getValidModes = (scale: number): UpscaleMode[] | null => {
+    if (!sourceDimensions || !selectedProvider.modes || !selectedProvider.getValidModes) {
+      return null;
+    }
+    return selectedProvider.getValidModes(sourceDimensions.width, sourceDimensions.height, scale);
+  };
+
+  const describeValidModes = (scale: number): string | null => {
+    const validModes = getValidModes(scale);
+    if (!validModes) return null;
+    if (validModes.length === 0) return 'No mode supports this image size';
+    const names = selectedProvider.modes
+      .filter(mode => validModes.includes(mode.id))
+      .map(mode => mode.name);
+    return `Modes: ${names.join(', ')}`;
+  };
+
+  const handleProviderChange = (providerId: string) => {
+    setSelectedProviderId(providerId);
+    setSelectedMode(upscaleProviders.get(providerId).modes?.[0]?.id);
+  };
+
+  // Update estimated credits when scale or crop changes
   useEffect(() => {
     if (originalFile) {
-      StabilityAIService.estimateCreditCost(originalFile, selectedScale)
+      const crop = originalDimensions && isEdited(edit) ? editedDimensions(originalDimensions, edit) : undefined;
+      StabilityAIService.estimateCreditCost(originalFile, effectiveScale, selectedProvider.getInputLimits?.(selectedMode, effectiveScale), crop)
         .then(setEstimatedCredits)
-        .catch(() => setEstimatedCredits(selectedScale)); // Fallback to scale as credit cost
+        .catch(() => setEstimatedCredits(Math.ceil(effectiveScale))); // Fallback to scale as credit cost
+    }
+  }, [originalFile, originalDimensions, edit, effectiveScale, selectedProvider, selectedMode]);
+
+  // Render the edit once so the preview, size estimate and upscale share it
+  useEffect(() => {
+    if (!isEdited(edit)) {
+      setEditedPreview(null);
+      return;
     }
-  }, [originalFile, selectedScale]);
+    let cancelled = false;
+    let url: string | null = null;
+    applyImageEdit(originalFile, edit)
+      .then((file) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(file);
+        setEditedPreview({ edit, file, url });
+      })
+      .catch((error) => {
+        console.warn('⚠️ Could not apply image edit:', error);
+        if (!cancelled) {
+          toast({ title: "Edit Failed", description: error instanceof Error ? error.message : 'Could not edit the image.', variant: "destructive" });
+          setEdit(NO_EDIT);
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [originalFile, edit, toast]);
+
+  // Labels follow the settings until a result exists for this image
+  useEffect(() => {
+    if (!processedImage) {
+      setCompletedScale(null);
+      setCompletedMode(null);
+      setCompletedBlob(null);
+      setCompletedMetadata([]);
+      setCompletedQuality(null);
+    }
+  }, [processedImage]);
 
   // Get original image dimensions
   useEffect(() => {
@@ -85,8 +233,11 @@ const ImageProcessor = ({
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      onStartProcessing(selectedScale);
+      onStartProcessing(effectiveScale);
       setProgressMessage('Initializing...');
 
       const progressCallback = (progressData: UpscaleProgress) => {
@@ -99,20 +250,50 @@ const ImageProcessor = ({
         }
       };
 
-      const upscaledBlob = await stabilityAI.upscaleImage(
-        originalFile,
-        { scale: selectedScale, format: 'png' },
-        progressCallback
+      const result = await upscaleToSize(
+        upscaleProviders.get(selectedProviderId),
+        editedPreview?.edit === edit ? editedPreview.file : await applyImageEdit(originalFile, edit),
+        outputSize,
+        { ...toFormatOptions(encoding), mode: selectedMode, signal: abortController.signal },
+        progressCallback,
+        { fallbackProvider: upscaleProviders.getFallback(), metadata: metadataPolicy, measureQuality: true, cache: true }
       );
 
-      onProcessingComplete(upscaledBlob, selectedScale);
+      setCompletedScale(result.scale);
+      setCompletedMode(result.usedFallback ? result.providerId : selectedMode || result.providerId);
+      setCompletedBlob(result.blob);
+      setCompletedMetadata(result.metadata);
+      setCompletedQuality(result.quality || null);
+      onProcessingComplete(result.blob, result.scale);
+
+      if (result.inputChanges.length > 0) {
+        toast({
+          title: "Image adjusted before upload",
+          description: result.inputChanges.join('. '),
+        });
+      }
       
+      // Local and self-hosted providers don't spend credits
+      const usedProvider = upscaleProviders.get(result.providerId);
       toast({
         title: "Success!",
-        description: `Image upscaled ${selectedScale}x successfully. Estimated ${estimatedCredits} credit(s) used.`,
+        description: result.cached
+          ? `This image was already upscaled with these settings, so the saved ${result.width} × ${result.height}px result was reused. No credits used.`
+          : result.usedFallback
+          ? `Image upscaled ${formatScale(result.scale)} with ${usedProvider.name} because ${selectedProvider.name} was unavailable.${usedProvider.free ? ' No credits used.' : ''}`
+          : `Image upscaled ${formatScale(result.scale)} to ${result.width} × ${result.height}px.${usedProvider.free ? '' : ` Estimated ${estimatedCredits} credit(s) used.`}`,
       });
 
     } catch (error) {
+      if (isCancellation(error)) {
+        onProcessingCancelled?.();
+        toast({
+          title: "Upscale Cancelled",
+          description: "No result was saved. You can start again at any time.",
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       onProcessingError(errorMessage);
       
@@ -121,14 +302,39 @@ const ImageProcessor = ({
         description: errorMessage,
         variant: "destructive",
       });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Abort a running upscale when the processor is unmounted (e.g. new upload)
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Preview uses the planned size until a result exists
+  const getFileName = () => {
+    const dimensions = processedImage && processedDimensions ? processedDimensions : targetDimensions;
+    return applyFilenameTemplate(nameTemplate, {
+      name: originalFile ? stripExtension(originalFile.name) : 'image',
+      scale: resultScale,
+      index: 1,
+      ext: extensionForType(completedBlob?.type || `image/${encoding.format}`),
+      width: dimensions?.width,
+      height: dimensions?.height,
+      mode: completedMode || selectedMode || selectedProviderId,
+    });
+  };
+
   const handleDownload = () => {
     if (processedImage) {
       const link = document.createElement('a');
       link.href = processedImage;
-      link.download = `upscaled-image-${selectedScale}x.png`;
+      link.download = getFileName();
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -146,39 +352,241 @@ const ImageProcessor = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {providerOptions.length > 1 && (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Upscaling Engine
+              </label>
+              <Select value={selectedProviderId} onValueChange={handleProviderChange} disabled={isProcessing}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {providerOptions.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{provider.name}</span>
+                        {provider.description && <span className="text-xs text-gray-400">{provider.description}</span>}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {selectedProvider.modes && selectedMode && (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Upscaling Mode
+              </label>
+              <Select value={selectedMode} onValueChange={(value) => setSelectedMode(value as UpscaleMode)} disabled={isProcessing}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {selectedProvider.modes.map((mode) => {
+                    const validModes = getValidModes(effectiveScale);
+                    const isValid = !validModes || validModes.includes(mode.id);
+                    return (
+                      <SelectItem key={mode.id} value={mode.id} disabled={!isValid} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{mode.name}</span>
+                          <span className="text-xs text-gray-400">
+                            {isValid ? mode.description : `Not available for this image at ${formatScale(effectiveScale)}`}
+                          </span>
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <label className="text-white/90 text-sm font-medium mb-2 block">
-              Upscaling Factor
+              Output Size
             </label>
-            <Select value={selectedScale.toString()} onValueChange={(value) => setSelectedScale(Number(value))}>
+            <Select value={sizeMode} onValueChange={(value) => setSizeMode(value as 'scale' | 'target' | 'print')} disabled={isProcessing}>
               <SelectTrigger className="bg-white/10 border-white/20 text-white">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="bg-gray-900 border-gray-700">
-                {scaleOptions.map((option) => (
-                  <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
-                    <div className="flex flex-col">
-                      <span className="font-medium">{option.label}</span>
-                      <span className="text-xs text-gray-400">{option.description}</span>
-                    </div>
-                  </SelectItem>
-                ))}
+                <SelectItem value="scale" className="text-white hover:bg-gray-800">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Multiplier</span>
+                    <span className="text-xs text-gray-400">Scale width and height by a fixed factor</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="target" className="text-white hover:bg-gray-800">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Target size</span>
+                    <span className="text-xs text-gray-400">Fit a resolution or long edge</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="print" className="text-white hover:bg-gray-800">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Print size</span>
+                    <span className="text-xs text-gray-400">Fill a paper size at a chosen DPI</span>
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {sizeMode === 'print' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Paper Size
+                </label>
+                <Select value={selectedPaperId} onValueChange={setSelectedPaperId} disabled={isProcessing}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {PAPER_SIZES.map((paper) => (
+                      <SelectItem key={paper.id} value={paper.id} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{paper.label}</span>
+                          <span className="text-xs text-gray-400">{paper.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Print Resolution
+                </label>
+                <Select value={printDpi.toString()} onValueChange={(value) => setPrintDpi(Number(value))} disabled={isProcessing}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {PRINT_DPI_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{option.label}</span>
+                          <span className="text-xs text-gray-400">{option.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : sizeMode === 'target' ? (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Target Size
+              </label>
+              <Select value={selectedPresetId} onValueChange={setSelectedPresetId} disabled={isProcessing}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {TARGET_SIZE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{preset.label}</span>
+                        <span className="text-xs text-gray-400">{preset.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Upscaling Factor
+              </label>
+              <Select value={selectedScale.toString()} onValueChange={(value) => setSelectedScale(Number(value))}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {scaleOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{option.label}</span>
+                        <span className="text-xs text-gray-400">{option.description}</span>
+                        {describeValidModes(option.value) && (
+                          <span className="text-xs text-blue-300">{describeValidModes(option.value)}</span>
+                        )}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <OutputFormatSettings
+            value={encoding}
+            onChange={setEncoding}
+            disabled={isProcessing}
+            estimatedSize={originalFile ? estimatedSize : undefined}
+          />
+
+          <MetadataPolicySelect value={metadataPolicy} onChange={setMetadataPolicy} disabled={isProcessing} />
+
+          <FilenameTemplateInput value={nameTemplate} onChange={setNameTemplate} preview={getFileName()} />
+
           <div className="space-y-2">
             <Alert className="bg-blue-500/10 border-blue-500/20">
               <AlertCircle className="h-4 w-4 text-blue-400" />
               <AlertDescription className="text-blue-300">
-                Estimated cost: {estimatedCredits} credit{estimatedCredits !== 1 ? 's' : ''}
+                {targetDimensions && (
+                  <span className="block">
+                    Output: {targetDimensions.width} × {targetDimensions.height} px ({formatScale(effectiveScale)})
+                  </span>
+                )}
+                {isPrint && targetDimensions && (
+                  <span className="block">
+                    Prints at {(targetDimensions.width / printDpi).toFixed(1)} × {(targetDimensions.height / printDpi).toFixed(1)} in
+                    at {printDpi} DPI; without upscaling it would be {Math.round(printDpi / effectiveScale)} DPI
+                  </span>
+                )}
+                {tileCount > 1 && (
+                  <span className="block">
+                    Large image: will be upscaled in {tileCount} tiles and stitched together
+                  </span>
+                )}
+                {!selectedProvider.free && `Estimated cost: ${estimatedCredits} credit${estimatedCredits !== 1 ? 's' : ''}`}
               </AlertDescription>
             </Alert>
+
+            {(printTooLarge || printTooSoft || printWithoutDpi) && (
+              <Alert className="bg-orange-500/10 border-orange-500/20">
+                <AlertCircle className="h-4 w-4 text-orange-400" />
+                <AlertDescription className="text-orange-300">
+                  {printTooLarge && (
+                    <span className="block">
+                      This print needs more than {MAX_CANVAS_DIMENSION}px per side, which the browser can't produce. Choose a smaller paper size or lower DPI.
+                    </span>
+                  )}
+                  {printTooSoft && !printTooLarge && (
+                    <span className="block">
+                      The source is too small for this print: it needs {formatScale(effectiveScale)} enlargement and will look soft beyond {MAX_PRINT_SCALE}x. Choose a smaller paper size or lower DPI.
+                    </span>
+                  )}
+                  {printWithoutDpi && (
+                    <span className="block">
+                      {encoding.format.toUpperCase()} files can't reliably store DPI. Use PNG or JPEG for print.
+                    </span>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
           </div>
 
           <Button
             onClick={handleUpscale}
-            disabled={isProcessing}
+            disabled={isProcessing || printTooLarge}
             className="w-full bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white py-3 rounded-lg font-semibold transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isProcessing ? (
@@ -189,7 +597,7 @@ const ImageProcessor = ({
             ) : (
               <>
                 <Zap className="w-5 h-5 mr-2" />
-                Upscale Image {selectedScale}x
+                Upscale Image {formatScale(effectiveScale)}
               </>
             )}
           </Button>
@@ -201,27 +609,61 @@ const ImageProcessor = ({
                 <span>{Math.round(progress)}%</span>
               </div>
               <Progress value={progress} className="h-2" />
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                size="sm"
+                className="w-full bg-red-500/20 border-red-500/30 text-red-300 hover:bg-red-500/30"
+              >
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Before/After Viewer */}
+      {processedImage && (
+        <Card className="bg-white/10 backdrop-blur-lg border border-white/20">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Compare Before / After</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ComparisonViewer original={inputImage} processed={processedImage} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Results Comparison */}
       <div className="grid md:grid-cols-2 gap-6">
         <Card className="bg-white/10 backdrop-blur-lg border border-white/20">
           <CardHeader>
             <CardTitle className="text-white text-lg flex flex-col gap-1">
-              Original
-              {originalDimensions && (
+              <div className="flex items-center justify-between gap-2">
+                Original
+                <Button
+                  onClick={() => setIsEditorOpen(true)}
+                  variant="outline"
+                  size="sm"
+                  disabled={isProcessing}
+                  className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                >
+                  <Crop className="w-4 h-4 mr-1" />
+                  Crop & Rotate
+                </Button>
+              </div>
+              {sourceDimensions && (
                 <span className="text-sm text-white/70 font-normal">
-                  {originalDimensions.width} × {originalDimensions.height} px
+                  {sourceDimensions.width} × {sourceDimensions.height} px
+                  {isEdited(edit) && <span className="block text-purple-300">{describeEdit(edit).join(' · ')}</span>}
                 </span>
               )}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <img
-              src={originalImage}
+              src={inputImage}
               alt="Original"
               className="w-full h-auto rounded-lg shadow-lg"
             />
@@ -232,15 +674,21 @@ const ImageProcessor = ({
           <CardHeader>
             <CardTitle className="text-white text-lg flex flex-col gap-1">
               <div className="flex items-center gap-2">
-                Upscaled {selectedScale}x
+                Upscaled {formatScale(resultScale)}
                 {processedImage && <Star className="w-4 h-4 text-yellow-400" />}
               </div>
               {processedDimensions && (
                 <span className="text-sm text-white/70 font-normal">
                   {processedDimensions.width} × {processedDimensions.height} px
                   <span className="text-green-400 ml-2">
-                    (+{Math.round(((processedDimensions.width * processedDimensions.height) / (originalDimensions?.width || 1 * originalDimensions?.height || 1) - 1) * 100)}% pixels)
+                    (+{Math.round(((processedDimensions.width * processedDimensions.height) / (sourceDimensions?.width || 1 * sourceDimensions?.height || 1) - 1) * 100)}% pixels)
                   </span>
+                  {completedBlob && (
+                    <span className="block">
+                      {extensionForType(completedBlob.type).toUpperCase()}, {formatFileSize(completedBlob.size)}
+                      {completedMetadata.length > 0 && ` · Kept ${completedMetadata.join(', ')}`}
+                    </span>
+                  )}
                 </span>
               )}
             </CardTitle>
@@ -255,9 +703,10 @@ const ImageProcessor = ({
                     className="w-full h-auto rounded-lg shadow-lg animate-fade-in"
                   />
                   <div className="absolute top-2 left-2 bg-green-500/90 text-white px-2 py-1 rounded text-xs font-semibold">
-                    {selectedScale}x Enhanced
+                    {formatScale(resultScale)} Enhanced
                   </div>
                 </div>
+                {completedQuality && <QualityReport metrics={completedQuality} />}
                 <Button
                   onClick={handleDownload}
                   className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white py-2 rounded-lg font-semibold transition-all duration-300"
@@ -277,6 +726,16 @@ const ImageProcessor = ({
           </CardContent>
         </Card>
       </div>
+
+      <ImageEditor
+        file={isEditorOpen ? originalFile : null}
+        value={edit}
+        onApply={(next) => {
+          setEdit(next);
+          setIsEditorOpen(false);
+        }}
+        onClose={() => setIsEditorOpen(false)}
+      />
     </div>
   );
 };
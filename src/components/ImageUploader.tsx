@@ -1,14 +1,36 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Image, X, Trash2, Plus } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Upload, Image, X, Trash2, Plus, Link, Loader2, GripVertical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import Thumbnail from './Thumbnail';
+import VirtualGrid from './VirtualGrid';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { moveId } from '@/lib/utils';
+import { collectDroppedFiles, getClipboardImages } from '@/lib/fileImport';
+import { hashBlob } from '@/lib/contentHash';
+import { decodeInput, INPUT_ACCEPT, isSupportedInput, SUPPORTED_FORMATS_LABEL } from '@/services/decodeInput';
+import { importImageFromUrl } from '@/services/urlImport';
+import { MAX_BATCH_IMAGES } from '@/services/batchSettings';
 
 interface UploadedImage {
   file: File;
-  url: string;
   id: string;
+  hash?: string; // SHA-256 of the uploaded file, used to spot duplicates
 }
 
+// Deduplication is best-effort: hashing needs crypto.subtle, which browsers
+// only provide in secure contexts (not e.g. http:// on a LAN address)
+const tryHash = async (file: File): Promise<string | undefined> => {
+  try {
+    return await hashBlob(file);
+  } catch (error) {
+    console.warn(`⚠️ Could not hash ${file.name}, skipping duplicate check:`, error);
+    return undefined;
+  }
+};
+
 interface ImageUploaderProps {
   onImageUpload?: (file: File) => void; // For backward compatibility
   onImagesUpload?: (files: UploadedImage[]) => void; // For multi-upload
@@ -17,6 +39,7 @@ interface ImageUploaderProps {
   onClearImage?: () => void; // For backward compatibility
   onClearImages?: () => void; // For multi-upload
   onRemoveImage?: (id: string) => void; // For removing individual images
+  onReorderImages?: (ids: string[]) => void; // New order after a drag
   isProcessing?: boolean;
   multiUpload?: boolean; // Toggle between single and multi-upload mode
   maxImages?: number;
@@ -30,11 +53,139 @@ const ImageUploader = ({
   onClearImage,
   onClearImages,
   onRemoveImage,
+  onReorderImages,
   isProcessing = false,
   multiUpload = false,
-  maxImages = 10
+  maxImages = MAX_BATCH_IMAGES
 }: ImageUploaderProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [importUrl, setImportUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [convertingCount, setConvertingCount] = useState(0);
+  const { toast } = useToast();
+  const isConverting = convertingCount > 0;
+
+  // Every way of adding files ends up here, so skipped files and the batch
+  // limit are reported the same way for all of them
+  const addFiles = useCallback(async (files: File[]) => {
+    const supported = files.filter(isSupportedInput);
+    const unsupported = files.length - supported.length;
+
+    if (supported.length === 0) {
+      toast({
+        title: "No Images Found",
+        description: files.length > 0 ? `None of the ${files.length} file(s) were supported images.` : "Nothing to add.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Files are hashed and, for HEIC, TIFF, RAW etc., converted one at a time
+    // since a decode can use hundreds of MB for a large photo. Duplicates of
+    // an image already in the batch are reported as such, even when the
+    // batch is full, and never use up a slot.
+    const slots = multiUpload ? Math.max(0, maxImages - uploadedImages.length) : 1;
+    const seen = new Set(uploadedImages.map(image => image.hash));
+    const added: { file: File; hash?: string }[] = [];
+    const duplicates: string[] = [];
+    const failed: string[] = [];
+    const conversions: string[] = []; // What decoding did to each converted file
+    let leftOut = 0;
+    setConvertingCount(supported.length);
+    try {
+      for (const file of supported) {
+        try {
+          const hash = await tryHash(file);
+          if (hash && seen.has(hash)) {
+            duplicates.push(file.name);
+            continue;
+          }
+          if (added.length >= slots) {
+            leftOut++;
+            continue;
+          }
+          if (hash) seen.add(hash);
+          const decoded = await decodeInput(file);
+          if (decoded.changes.length > 0) conversions.push(`${file.name}: ${decoded.changes.join('; ')}`);
+          added.push({ file: decoded.file, hash });
+        } catch (error) {
+          console.error(`❌ Could not decode ${file.name}:`, error);
+          failed.push(file.name);
+        } finally {
+          setConvertingCount(count => count - 1);
+        }
+      }
+    } finally {
+      setConvertingCount(0);
+    }
+
+    const listNames = (names: string[]) => `${names.slice(0, 3).join(', ')}${names.length > 3 ? ` and ${names.length - 3} more` : ''}`;
+
+    if (failed.length > 0) {
+      toast({
+        title: "Could Not Read Some Images",
+        description: `${listNames(failed)} could not be decoded.`,
+        variant: "destructive",
+      });
+    }
+
+    // Only one toast shows at a time, so conversions ride along with the
+    // summary of what was added
+    const conversionNote = conversions.length > 0
+      ? ` ${conversions.slice(0, 3).join('. ')}.${conversions.length > 3 ? ` ${conversions.length - 3} more converted.` : ''}`
+      : '';
+
+    if (duplicates.length > 0) {
+      toast({
+        title: "Duplicates Skipped",
+        description: `${listNames(duplicates)} ${duplicates.length === 1 ? 'is' : 'are'} already in this batch.`,
+      });
+    }
+
+    if (multiUpload) {
+      if (onImagesUpload && added.length > 0) {
+        const newImages: UploadedImage[] = added.map(({ file, hash }) => ({
+          file,
+          id: Math.random().toString(36).substr(2, 9),
+          hash
+        }));
+        onImagesUpload([...uploadedImages, ...newImages]);
+      }
+
+      if (leftOut > 0) {
+        toast({
+          title: "Image Limit Reached",
+          description: `Added ${added.length} of ${added.length + leftOut} images. A batch holds up to ${maxImages}, so ${leftOut} ${leftOut === 1 ? 'was' : 'were'} left out${unsupported > 0 ? ` and ${unsupported} unsupported file(s) skipped` : ''}.${conversionNote}`,
+          variant: "destructive",
+        });
+      } else if (unsupported > 0) {
+        toast({
+          title: "Some Files Skipped",
+          description: `Added ${added.length} image(s); ${unsupported} file(s) were not supported images.${conversionNote}`,
+        });
+      } else if (conversionNote) {
+        toast({
+          title: "Images Added",
+          description: `Added ${added.length} image(s).${conversionNote}`,
+        });
+      }
+    } else if (added.length > 0) {
+      if (onImageUpload) {
+        onImageUpload(added[0].file);
+      }
+      if (supported.length > 1) {
+        toast({
+          title: "Only One Image Used",
+          description: `${supported.length} images were added; switch to Multi Upload to process them all.${conversionNote}`,
+        });
+      } else if (conversionNote) {
+        toast({
+          title: "Image Added",
+          description: conversionNote.trim(),
+        });
+      }
+    }
+  }, [multiUpload, maxImages, uploadedImages, onImagesUpload, onImageUpload, toast]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -49,56 +200,94 @@ const ImageUploader = ({
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    const imageFiles = files.filter(file => file.type.startsWith('image/'));
-    
-    if (multiUpload) {
-      const remainingSlots = maxImages - uploadedImages.length;
-      const filesToAdd = imageFiles.slice(0, remainingSlots);
-      
-      if (filesToAdd.length > 0 && onImagesUpload) {
-        const newImages: UploadedImage[] = filesToAdd.map(file => ({
-          file,
-          url: URL.createObjectURL(file),
-          id: Math.random().toString(36).substr(2, 9)
-        }));
-        onImagesUpload([...uploadedImages, ...newImages]);
-      }
-    } else {
-      const imageFile = imageFiles[0];
-      if (imageFile && onImageUpload) {
-        onImageUpload(imageFile);
-      }
-    }
-  }, [multiUpload, maxImages, uploadedImages, onImagesUpload, onImageUpload]);
+    // Thumbnails dragged while reordering carry no files
+    if (isProcessing || isConverting || !Array.from(e.dataTransfer.types).includes('Files')) return;
+
+    collectDroppedFiles(e.dataTransfer)
+      .then(addFiles)
+      .catch((error) => {
+        console.error('Error reading dropped files:', error);
+        toast({
+          title: "Could Not Read Files",
+          description: "Some dropped files or folders could not be read.",
+          variant: "destructive",
+        });
+      });
+  }, [isProcessing, isConverting, addFiles, toast]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const imageFiles = files.filter(file => file.type.startsWith('image/'));
-    
-    if (multiUpload) {
-      const remainingSlots = maxImages - uploadedImages.length;
-      const filesToAdd = imageFiles.slice(0, remainingSlots);
-      
-      if (filesToAdd.length > 0 && onImagesUpload) {
-        const newImages: UploadedImage[] = filesToAdd.map(file => ({
-          file,
-          url: URL.createObjectURL(file),
-          id: Math.random().toString(36).substr(2, 9)
-        }));
-        onImagesUpload([...uploadedImages, ...newImages]);
-      }
-    } else {
-      const imageFile = imageFiles[0];
-      if (imageFile && onImageUpload) {
-        onImageUpload(imageFile);
-      }
-    }
+    addFiles(Array.from(e.target.files || []));
     
     // Reset input
     e.target.value = '';
-  }, [multiUpload, maxImages, uploadedImages, onImagesUpload, onImageUpload]);
+  }, [addFiles]);
+
+  // Ctrl/Cmd+V anywhere on the page while the uploader is shown
+  useEffect(() => {
+    if (isProcessing || isConverting) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const images = getClipboardImages(event.clipboardData);
+      if (images.length === 0) return; // Let text paste normally
+      event.preventDefault();
+      addFiles(images);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isProcessing, isConverting, addFiles]);
+
+  const handleImportUrl = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importUrl.trim() || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const file = await importImageFromUrl(importUrl);
+      setImportUrl('');
+      await addFiles([file]);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not import the image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importUrl, isImporting, addFiles, toast]);
+
+  const importForm = (
+    <form onSubmit={handleImportUrl} className="mt-6 flex gap-2 max-w-md mx-auto">
+      <Input
+        type="url"
+        value={importUrl}
+        onChange={(e) => setImportUrl(e.target.value)}
+        placeholder="https://example.com/photo.jpg"
+        className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+        disabled={isProcessing || isImporting || isConverting}
+        aria-label="Image URL"
+      />
+      <Button
+        type="submit"
+        variant="outline"
+        className="bg-white/10 border-white/20 text-white hover:bg-white/20 shrink-0"
+        disabled={isProcessing || isImporting || isConverting || !importUrl.trim()}
+      >
+        {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link className="w-4 h-4 mr-2" />}
+        Import from URL
+      </Button>
+    </form>
+  );
+
+  const convertingNotice = isConverting && (
+    <div className="mt-4 flex items-center justify-center gap-2 text-sm text-white/70">
+      <Loader2 className="w-4 h-4 animate-spin" />
+      Converting {convertingCount} {convertingCount === 1 ? 'file' : 'files'}...
+    </div>
+  );
+
+  const { draggingId, overId, getItemProps } = useDragReorder((fromId, toId) => {
+    onReorderImages?.(moveId(uploadedImages.map(image => image.id), fromId, toId));
+  });
 
   const handleRemoveImage = useCallback((id: string) => {
     if (onRemoveImage) {
@@ -137,7 +326,7 @@ const ImageUploader = ({
                 <Button
                   className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white px-8 py-3 rounded-full font-semibold transition-all duration-300 transform hover:scale-105 hover:shadow-lg"
                   onClick={() => document.getElementById('file-input')?.click()}
-                  disabled={isProcessing}
+                  disabled={isProcessing || isConverting}
                 >
                   <Image className="w-5 h-5 mr-2" />
                   Choose Image
@@ -146,13 +335,17 @@ const ImageUploader = ({
                 <input
                   id="file-input"
                   type="file"
-                  accept="image/*"
+                  accept={INPUT_ACCEPT}
                   onChange={handleFileInput}
                   className="hidden"
                 />
                 
+                {importForm}
+              {convertingNotice}
+                {convertingNotice}
+                
                 <div className="mt-6 text-sm text-white/50">
-                  Supports: JPG, PNG, GIF, WebP (Max 10MB)
+                  Supports: {SUPPORTED_FORMATS_LABEL} (large files are resized automatically). You can also paste with Ctrl+V / ⌘V.
                 </div>
               </div>
             </CardContent>
@@ -215,7 +408,7 @@ const ImageUploader = ({
               <Button
                 className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white px-8 py-3 rounded-full font-semibold transition-all duration-300 transform hover:scale-105 hover:shadow-lg"
                 onClick={() => document.getElementById('multi-file-input')?.click()}
-                disabled={isProcessing}
+                disabled={isProcessing || isConverting}
               >
                 <Plus className="w-5 h-5 mr-2" />
                 Add Images ({uploadedImages.length}/{maxImages})
@@ -224,14 +417,17 @@ const ImageUploader = ({
               <input
                 id="multi-file-input"
                 type="file"
-                accept="image/*"
+                accept={INPUT_ACCEPT}
                 multiple
                 onChange={handleFileInput}
                 className="hidden"
               />
               
+              {importForm}
+              {convertingNotice}
+              
               <div className="mt-6 text-sm text-white/50">
-                Supports: JPG, PNG, GIF, WebP (Max 10MB each)
+                Supports: {SUPPORTED_FORMATS_LABEL} (large files are resized automatically). Drop whole folders or paste with Ctrl+V / ⌘V.
               </div>
             </div>
           </CardContent>
@@ -256,13 +452,26 @@ const ImageUploader = ({
             </Button>
           </div>
           
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-            {uploadedImages.map((image) => (
-              <Card key={image.id} className="relative bg-white/10 backdrop-blur-lg border border-white/20 overflow-hidden group">
+          <VirtualGrid
+            items={uploadedImages}
+            getKey={image => image.id}
+            minColumnWidth={150}
+            maxColumns={5}
+            gap={16}
+            estimatedRowHeight={220}
+            renderItem={(image) => (
+              <Card
+                key={image.id}
+                {...getItemProps(image.id, !!onReorderImages && !isProcessing)}
+                className={`relative bg-white/10 backdrop-blur-lg border overflow-hidden group ${
+                  overId === image.id && draggingId !== image.id ? 'border-purple-400' : 'border-white/20'
+                } ${draggingId === image.id ? 'opacity-50' : ''} ${onReorderImages && !isProcessing ? 'cursor-grab' : ''}`}
+              >
                 <CardContent className="p-2">
                   <div className="relative aspect-square">
-                    <img
-                      src={image.url}
+                    <Thumbnail
+                      thumbnailKey={`source:${image.id}`}
+                      load={() => Promise.resolve(image.file)}
                       alt="Uploaded"
                       className="w-full h-full object-cover rounded-lg"
                     />
@@ -277,13 +486,14 @@ const ImageUploader = ({
                       </Button>
                     </div>
                   </div>
-                  <div className="mt-2 text-xs text-white/70 truncate">
+                  <div className="mt-2 text-xs text-white/70 truncate flex items-center gap-1">
+                    {onReorderImages && !isProcessing && <GripVertical className="w-3 h-3 shrink-0 text-white/40" />}
                     {image.file.name}
                   </div>
                 </CardContent>
               </Card>
-            ))}
-          </div>
+            )}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FilenameTemplateInput from './FilenameTemplateInput';
+import OutputFormatSettings from './OutputFormatSettings';
+import { BATCH_SCALE_OPTIONS, ItemSettings } from '@/services/batchSettings';
+import { TARGET_SIZE_PRESETS } from '@/services/upscalePipeline';
+import type { UpscaleMode, UpscaleProvider } from '@/services/upscaleProvider';
+import { applyFilenameTemplate, stripExtension } from '@/lib/filenameTemplate';
+import { extensionForType } from '@/lib/image';
+
+// Where the settings are applied: the image (or selection) the dialog was
+// opened for, every selected image, or every image that hasn't run yet
+export type SettingsScope = 'target' | 'selected' | 'all';
+
+interface ItemSettingsDialogProps {
+  open: boolean;
+  title: string;
+  value: ItemSettings;
+  provider: UpscaleProvider; // Shared by the batch; only its modes are offered
+  batchTemplate: string;
+  sampleFileName: string; // For the filename preview
+  selectedCount: number; // Selected images that can still be changed
+  editableCount: number; // All images that can still be changed
+  isSelection?: boolean; // Opened for the selection rather than one image
+  onApply: (settings: ItemSettings, scope: SettingsScope) => void;
+  onReset: () => void; // Go back to following the batch settings
+  onClose: () => void;
+}
+
+const ItemSettingsDialog = ({
+  open,
+  title,
+  value,
+  provider,
+  batchTemplate,
+  sampleFileName,
+  selectedCount,
+  editableCount,
+  isSelection = false,
+  onApply,
+  onReset,
+  onClose
+}: ItemSettingsDialogProps) => {
+  const [draft, setDraft] = useState<ItemSettings>(value);
+
+  // Start from the current settings every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(value);
+  }, [open, value]);
+
+  const update = (patch: Partial<ItemSettings>) => setDraft(current => ({ ...current, ...patch }));
+
+  const preview = applyFilenameTemplate(draft.nameTemplate || batchTemplate, {
+    name: stripExtension(sampleFileName),
+    scale: draft.scale,
+    index: 1,
+    ext: extensionForType(`image/${draft.encoding.format}`),
+    mode: draft.mode || provider.id,
+  });
+
+  const outlineButton = 'bg-white/10 border-white/20 text-white hover:bg-white/20';
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl bg-gray-900 border-gray-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white truncate pr-6 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Output Size
+              </label>
+              <Select value={draft.sizeMode} onValueChange={(sizeMode) => update({ sizeMode: sizeMode as ItemSettings['sizeMode'] })}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  <SelectItem value="scale" className="text-white hover:bg-gray-800">Multiplier</SelectItem>
+                  <SelectItem value="target" className="text-white hover:bg-gray-800">Target size</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.sizeMode === 'target' ? (
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Target Size
+                </label>
+                <Select value={draft.presetId} onValueChange={(presetId) => update({ presetId })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {TARGET_SIZE_PRESETS.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{preset.label}</span>
+                          <span className="text-xs text-gray-400">{preset.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Upscaling Factor
+                </label>
+                <Select value={draft.scale.toString()} onValueChange={(scale) => update({ scale: Number(scale) })}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {BATCH_SCALE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{option.label}</span>
+                          <span className="text-xs text-gray-400">{option.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {provider.modes && draft.mode && (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Upscaling Mode
+              </label>
+              <Select value={draft.mode} onValueChange={(mode) => update({ mode: mode as UpscaleMode })}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {provider.modes.map((mode) => (
+                    <SelectItem key={mode.id} value={mode.id} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{mode.name}</span>
+                        <span className="text-xs text-gray-400">{mode.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <OutputFormatSettings value={draft.encoding} onChange={(encoding) => update({ encoding })} />
+            <FilenameTemplateInput
+              label="File Name (blank uses the batch template)"
+              value={draft.nameTemplate || ''}
+              onChange={(nameTemplate) => update({ nameTemplate: nameTemplate || undefined })}
+              preview={preview}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 pt-2">
+          <Button variant="ghost" onClick={onReset} className="text-white/70 hover:text-white hover:bg-white/10">
+            Use Batch Settings
+          </Button>
+          <div className="flex gap-2 flex-wrap justify-end">
+            <Button variant="outline" onClick={onClose} className={outlineButton}>
+              Cancel
+            </Button>
+            {!isSelection && selectedCount > 0 && (
+              <Button variant="outline" onClick={() => onApply(draft, 'selected')} className={outlineButton}>
+                Apply to Selected ({selectedCount})
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => onApply(draft, 'all')} className={outlineButton}>
+              Apply to All ({editableCount})
+            </Button>
+            <Button
+              onClick={() => onApply(draft, 'target')}
+              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold"
+            >
+              {isSelection ? `Apply to Selected (${selectedCount})` : 'Apply'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItemSettingsDialog;
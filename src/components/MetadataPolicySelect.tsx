@@ -0,0 +1,40 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MetadataPolicy } from '@/lib/preserveMetadata';
+
+interface MetadataPolicySelectProps {
+  value: MetadataPolicy;
+  onChange: (policy: MetadataPolicy) => void;
+  disabled?: boolean;
+}
+
+const policyOptions: Array<{ value: MetadataPolicy; label: string; description: string }> = [
+  { value: 'keep', label: 'Keep all', description: 'Camera data, location, colour profile and DPI' },
+  { value: 'strip-gps', label: 'Remove location', description: 'Keeps everything except GPS coordinates' },
+  { value: 'strip-all', label: 'Remove all', description: 'Only the colour profile and DPI are kept' },
+];
+
+const MetadataPolicySelect = ({ value, onChange, disabled }: MetadataPolicySelectProps) => (
+  <div>
+    <label className="text-white/90 text-sm font-medium mb-2 block">
+      Metadata
+    </label>
+    <Select value={value} onValueChange={(policy) => onChange(policy as MetadataPolicy)} disabled={disabled}>
+      <SelectTrigger className="bg-white/10 border-white/20 text-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-900 border-gray-700">
+        {policyOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value} className="text-white hover:bg-gray-800">
+            <div className="flex flex-col">
+              <span className="font-medium">{option.label}</span>
+              <span className="text-xs text-gray-400">{option.description}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default MetadataPolicySelect;
@@ -1,334 +1,733 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Zap, Download, Settings, Star, AlertCircle, CheckCircle, XCircle, Pause, Play, RotateCcw } from 'lucide-react';
+import { Zap, Download, Settings, Star, AlertCircle, CheckCircle, XCircle, Pause, Play, RotateCcw, X, Ban, Columns2, Crop, SlidersHorizontal, GripVertical, ArrowUpToLine, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { stabilityAI, UpscaleProgress, StabilityAIService } from '@/services/stabilityAI';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { StabilityAIService, UpscaleProgress, UpscaleMode } from '@/services/stabilityAI';
+import { upscaleProviders } from '@/services/upscalers';
+import { UpscaleProviderError, isCancellation } from '@/services/upscaleProvider';
+import { BatchQueue, BatchOutcome } from '@/services/batchQueue';
+import { thumbnails } from '@/services/thumbnails';
+import { BatchSummary, estimateRemainingMs, formatDuration, getThroughput, summarizeRun } from '@/services/batchStats';
+import { batchStore, SavedBatch, StoredBatchItem, StoredBatchStatus } from '@/services/batchStore';
+import { createBatchZip, getResultFileName, ManifestFormat, BatchExportItem } from '@/services/batchExport';
+import { usePreference } from '@/hooks/use-preference';
+import { useSizeEstimate } from '@/hooks/use-size-estimate';
+import { useCreditEstimate } from '@/hooks/use-credit-estimate';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { moveId } from '@/lib/utils';
+import { BATCH_SCALE_OPTIONS, describeItemSettings, getSizePreset, ItemSettings, itemOutputSize } from '@/services/batchSettings';
+import FilenameTemplateInput from './FilenameTemplateInput';
+import OutputFormatSettings from './OutputFormatSettings';
+import MetadataPolicySelect from './MetadataPolicySelect';
+import ComparisonViewer from './ComparisonViewer';
+import Thumbnail from './Thumbnail';
+import VirtualGrid from './VirtualGrid';
+import ImageEditor from './ImageEditor';
+import ItemSettingsDialog, { SettingsScope } from './ItemSettingsDialog';
+import { downloadBlob, saveStream } from '@/lib/download';
+import { DEFAULT_RETRY_POLICY } from '@/services/retryPolicy';
+import {
+  DEFAULT_OUTPUT_ENCODING,
+  OutputEncoding,
+  TARGET_SIZE_PRESETS,
+  toFormatOptions,
+  upscaleToSize
+} from '@/services/upscalePipeline';
+import { formatScale } from '@/lib/image';
+import type { QualityMetrics } from '@/lib/qualityMetrics';
+import { applyImageEdit, describeEdit, ImageEdit, isEdited } from '@/lib/imageEdit';
 import { useToast } from '@/hooks/use-toast';
 import { UploadedImage } from './ImageUploader';
 
 interface ProcessedImage extends UploadedImage {
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused' | 'cancelled';
   progress: number;
-  processedUrl?: string;
-  processedBlob?: Blob;
+  processedBlob?: Blob; // Only when the result couldn't be stored; see loadResult
+  resultType?: string; // MIME type of the stored result
   error?: string;
   scale?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  providerId?: string;
+  mode?: UpscaleMode;
+  inputChanges?: string[];
+  progressMessage?: string;
+  retries?: number;
+  quality?: QualityMetrics;
+  edit?: ImageEdit; // Crop and rotation applied before upscaling
+  settings?: ItemSettings; // Own settings; otherwise the batch settings apply
+  startedAt?: number; // Epoch ms of the latest attempt
+  finishedAt?: number;
+  durationMs?: number; // How long the completed run took
+  credits?: number; // Spent on the result; 0 when cached or free
 }
 
+const DEFAULT_MAX_CONCURRENCY = 3;
+// Progress arrives in bursts; a few repaints a second is enough
+const PROGRESS_INTERVAL_MS = 250;
+
+// Mid-flight work can't survive a reload, so it is saved as waiting to run
+const toStoredStatus = (status: ProcessedImage['status']): StoredBatchStatus =>
+  status === 'processing' || status === 'paused' ? 'pending' : status;
+
+// What an item is saved again on a change of; progress ticks don't count.
+// Also seeds the resumed items, so both sides must build it the same way.
+const persistKey = (status: StoredBatchStatus, order: number, edit?: ImageEdit, settings?: ItemSettings) =>
+  `${status}:${order}:${JSON.stringify(edit ?? null)}:${JSON.stringify(settings ?? null)}`;
+
+// Settings can only change before an image runs
+const isEditable = (image: ProcessedImage) =>
+  image.status === 'pending' || image.status === 'failed' || image.status === 'cancelled';
+
+const fromStoredItem = (image: UploadedImage, item: StoredBatchItem): ProcessedImage => ({
+  ...image,
+  status: item.status,
+  progress: item.status === 'completed' ? 100 : 0,
+  error: item.error,
+  scale: item.scale,
+  outputWidth: item.outputWidth,
+  outputHeight: item.outputHeight,
+  providerId: item.providerId,
+  mode: item.mode,
+  inputChanges: item.inputChanges,
+  retries: item.retries,
+  quality: item.quality,
+  edit: item.edit,
+  settings: item.settings,
+  durationMs: item.durationMs,
+  credits: item.credits,
+  processedBlob: item.processedBlob,
+  resultType: item.resultType ?? item.processedBlob?.type
+});
+
+const hasResult = (image: ProcessedImage) =>
+  image.status === 'completed' && (!!image.processedBlob || !!image.resultType);
+
+// Results are kept in IndexedDB rather than memory so large batches don't run
+// out of it, and are only read back to be shown, compared or exported
+const loadResult = async (image: ProcessedImage): Promise<Blob> => {
+  if (image.processedBlob) return image.processedBlob;
+  const stored = await batchStore.loadResult(image.id);
+  if (!stored) throw new Error(`The result for ${image.file.name} is no longer available.`);
+  return stored;
+};
+
 interface MultiImageProcessorProps {
   images: UploadedImage[];
   onProcessingComplete: (results: ProcessedImage[]) => void;
   onProcessingError: (error: string) => void;
+  onReorder: (ids: string[]) => void; // The parent owns the order of `images`
+  restoredBatch?: SavedBatch; // Batch resumed from a previous session
 }
 
 const MultiImageProcessor = ({
   images,
   onProcessingComplete,
-  onProcessingError
+  onProcessingError,
+  onReorder,
+  restoredBatch
 }: MultiImageProcessorProps) => {
+  const restoredSettings = restoredBatch?.settings;
+  // Settings from a resumed batch only apply if that provider is still usable
+  const restoredProvider = restoredSettings && upscaleProviders.has(restoredSettings.providerId)
+    && upscaleProviders.get(restoredSettings.providerId).isAvailable()
+    ? upscaleProviders.get(restoredSettings.providerId)
+    : null;
+
   const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
-  const [selectedScale, setSelectedScale] = useState<number>(2);
+  const [selectedScale, setSelectedScale] = useState<number>(restoredSettings?.scale ?? 2);
+  const [sizeMode, setSizeMode] = useState<'scale' | 'target'>(restoredSettings?.sizeMode ?? 'scale');
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(restoredSettings?.presetId ?? TARGET_SIZE_PRESETS[1].id);
+  const [selectedProviderId, setSelectedProviderId] = useState<string>(() => (restoredProvider || upscaleProviders.getDefault()).id);
+  const [selectedMode, setSelectedMode] = useState<UpscaleMode | undefined>(() =>
+    restoredProvider ? restoredSettings?.mode : upscaleProviders.getDefault().modes?.[0]?.id
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [currentProcessingIndex, setCurrentProcessingIndex] = useState(-1);
-  const [maxConcurrentProcessing, setMaxConcurrentProcessing] = useState(2); // Default to 2, max 3
+  const [maxConcurrentProcessing, setMaxConcurrentProcessing] = useState(restoredSettings?.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY); // Ceiling for the adaptive scheduler
+  const [maxAttempts, setMaxAttempts] = useState(restoredSettings?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const [encoding, setEncoding] = useState<OutputEncoding>(restoredSettings?.encoding ?? DEFAULT_OUTPUT_ENCODING);
+  const [nameTemplate, setNameTemplate] = usePreference('filenameTemplate');
+  const [metadataPolicy, setMetadataPolicy] = usePreference('metadataPolicy');
+  const [includeOriginals, setIncludeOriginals] = useState(false);
+  const [manifestFormat, setManifestFormat] = useState<ManifestFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [comparingUrls, setComparingUrls] = useState<{ original: string; processed: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // Images the settings dialog was opened for, with the settings it starts from
+  const [settingsDialog, setSettingsDialog] = useState<{ ids: string[]; isSelection: boolean; value: ItemSettings } | null>(null);
+  const [runStartedAt, setRunStartedAt] = useState<number | null>(null); // When Start was last pressed
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  const [now, setNow] = useState(() => Date.now()); // Ticks while processing, for elapsed times and the ETA
   const { toast } = useToast();
 
   // Use refs to avoid stale closure issues
   const processedImagesRef = useRef<ProcessedImage[]>([]);
-  const isPausedRef = useRef(false);
-  const selectedScaleRef = useRef(2);
+  const processImageRef = useRef<(id: string) => Promise<BatchOutcome>>(async () => 'cancelled');
+  const selectedProviderIdRef = useRef(selectedProviderId);
+  const maxAttemptsRef = useRef(maxAttempts);
+  const metadataPolicyRef = useRef(metadataPolicy);
+  const runStartedAtRef = useRef(runStartedAt);
+  // One controller per in-flight image, keyed by image id
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const [queue] = useState(() => new BatchQueue(id => processImageRef.current(id), DEFAULT_MAX_CONCURRENCY));
+  const [concurrencyLimit, setConcurrencyLimit] = useState(() => queue.limit);
 
   // Keep refs in sync with state
   useEffect(() => {
     processedImagesRef.current = processedImages;
   }, [processedImages]);
 
+  // What images without their own settings are upscaled with
+  const batchSettings = useMemo<ItemSettings>(() => ({
+    sizeMode,
+    scale: selectedScale,
+    presetId: selectedPresetId,
+    mode: selectedMode,
+    encoding
+  }), [sizeMode, selectedScale, selectedPresetId, selectedMode, encoding]);
+  const batchSettingsRef = useRef(batchSettings);
+
+  const outputSize = useMemo(() => itemOutputSize(batchSettings), [batchSettings]);
+
+  const batchFiles = useMemo(() => images.map(image => image.file), [images]);
+  const estimatedSize = useSizeEstimate(batchFiles, outputSize, encoding);
+
+  useEffect(() => {
+    batchSettingsRef.current = batchSettings;
+  }, [batchSettings]);
+
+  useEffect(() => {
+    selectedProviderIdRef.current = selectedProviderId;
+  }, [selectedProviderId]);
+
+  useEffect(() => {
+    maxAttemptsRef.current = maxAttempts;
+  }, [maxAttempts]);
+
   useEffect(() => {
-    isPausedRef.current = isPaused;
-  }, [isPaused]);
+    metadataPolicyRef.current = metadataPolicy;
+  }, [metadataPolicy]);
 
   useEffect(() => {
-    selectedScaleRef.current = selectedScale;
-  }, [selectedScale]);
+    if (!isProcessing) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isProcessing]);
+
+  const providerOptions = upscaleProviders.listAvailable();
+  const selectedProvider = upscaleProviders.get(selectedProviderId);
 
-  const scaleOptions = [
-    { value: 2, label: '2x (Recommended)', description: 'Best quality/speed balance' },
-    { value: 4, label: '4x (High Quality)', description: 'Better for smaller images' },
-    { value: 8, label: '8x (Maximum)', description: 'Extreme upscaling' }
+  const getSettings = (image: ProcessedImage) => image.settings || batchSettings;
+
+  // Ceilings for the adaptive scheduler, which starts at one and ramps up
+  const concurrencyOptions = [
+    { value: 1, label: '1 at a time', description: 'Sequential (safest)' },
+    { value: 2, label: 'Up to 2', description: 'Gentle on rate limits' },
+    { value: 3, label: 'Up to 3', description: 'Balanced (default)' },
+    { value: 5, label: 'Up to 5', description: 'Faster if the provider keeps up' },
+    { value: 8, label: 'Up to 8', description: 'Self-hosted or high-limit accounts' }
   ];
 
-  // Initialize processed images when images prop changes
+  // Initialize processed images when images prop changes. Images already in
+  // the batch keep their state; resumed ones come back as they were saved.
+  // The list order is the processing order, also for a running batch.
   useEffect(() => {
     const initializeImages = () => {
-      const initialized = images.map((image) => ({
-        ...image,
-        status: 'pending' as const,
-        progress: 0,
-        scale: selectedScale
-      }));
+      const initialized = images.map((image): ProcessedImage => {
+        const existing = processedImagesRef.current.find(img => img.id === image.id);
+        if (existing) return existing;
+        const stored = restoredBatch?.items.find(item => item.id === image.id);
+        if (stored) return fromStoredItem(image, stored);
+        return {
+          ...image,
+          status: 'pending' as const,
+          progress: 0
+        };
+      });
       
+      processedImagesRef.current = initialized;
       setProcessedImages(initialized);
+      queue.reorder(initialized.map(image => image.id));
     };
 
     if (images.length > 0) {
       initializeImages();
     }
-  }, [images, selectedScale]);
+  }, [images, restoredBatch, queue]);
+
+  // Save status changes (not progress ticks) so the batch survives a reload.
+  // Resumed items start out as already saved.
+  const persistedRef = useRef(new Map<string, string>(
+    restoredBatch?.items.map((item, order) => [item.id, persistKey(item.status, order, item.edit, item.settings)]) ?? []
+  ));
 
-  // Update scale when scale changes
   useEffect(() => {
-    const updateScale = () => {
-      const updated = processedImages.map((image) => {
-        if (image.status === 'pending' || image.status === 'failed') {
-          return { ...image, scale: selectedScale };
-        }
-        return image;
-      });
-      
-      setProcessedImages(updated);
-    };
+    if (!batchStore.isAvailable()) return;
+    const persisted = persistedRef.current;
+    const currentIds = new Set(processedImages.map(img => img.id));
 
-    // Debounce the update to prevent excessive re-renders
-    const timeoutId = setTimeout(() => {
-      if (processedImages.length > 0 && !isProcessing) {
-        updateScale();
+    persisted.forEach((_, id) => {
+      if (!currentIds.has(id)) {
+        persisted.delete(id);
+        batchStore.deleteItem(id);
       }
-    }, 300);
+    });
+
+    processedImages.forEach((image, order) => {
+      const status = toStoredStatus(image.status);
+      const key = persistKey(status, order, image.edit, image.settings);
+      if (persisted.get(image.id) === key) return;
+      persisted.set(image.id, key);
+      batchStore.saveItem({
+        id: image.id,
+        order,
+        file: image.file,
+        hash: image.hash,
+        status,
+        error: image.error,
+        scale: image.scale,
+        outputWidth: image.outputWidth,
+        outputHeight: image.outputHeight,
+        providerId: image.providerId,
+        mode: image.mode,
+        inputChanges: image.inputChanges,
+        retries: image.retries,
+        quality: image.quality,
+        edit: image.edit,
+        settings: image.settings,
+        durationMs: image.durationMs,
+        credits: image.credits,
+        resultType: image.resultType,
+        processedBlob: status === 'completed' ? image.processedBlob : undefined,
+        updatedAt: Date.now()
+      });
+    });
+  }, [processedImages]);
 
-    return () => clearTimeout(timeoutId);
-  }, [selectedScale, processedImages.length, isProcessing]);
+  useEffect(() => {
+    batchStore.saveSettings({
+      providerId: selectedProviderId,
+      mode: selectedMode,
+      sizeMode,
+      presetId: selectedPresetId,
+      scale: selectedScale,
+      maxConcurrency: maxConcurrentProcessing,
+      maxAttempts,
+      encoding
+    });
+  }, [selectedProviderId, selectedMode, sizeMode, selectedPresetId, selectedScale, maxConcurrentProcessing, maxAttempts, encoding]);
+
+  const getImage = (id: string) => processedImagesRef.current.find(img => img.id === id);
+
+  // Writes through the ref first so queue callbacks always see the latest state
+  const updateImages = useCallback((update: (image: ProcessedImage) => ProcessedImage) => {
+    const updated = processedImagesRef.current.map(update);
+    processedImagesRef.current = updated;
+    setProcessedImages(updated);
+  }, []);
+
+  const updateImage = useCallback((id: string, patch: Partial<ProcessedImage>) => {
+    updateImages(img => img.id === id ? { ...img, ...patch } : img);
+  }, [updateImages]);
 
-  const processImageAtIndex = useCallback(async (imageIndex: number) => {
-    const imageToProcess = processedImagesRef.current[imageIndex];
+  // A mode chosen for one provider means nothing to another, so images with
+  // their own settings switch to the new provider's default mode too
+  const handleProviderChange = useCallback((providerId: string) => {
+    const mode = upscaleProviders.get(providerId).modes?.[0]?.id;
+    setSelectedProviderId(providerId);
+    setSelectedMode(mode);
+    updateImages(img => img.settings ? { ...img, settings: { ...img.settings, mode } } : img);
+  }, [updateImages]);
+
+  const processImage = useCallback(async (id: string): Promise<BatchOutcome> => {
+    const imageToProcess = getImage(id);
     if (!imageToProcess || imageToProcess.status !== 'pending') {
-      return;
+      return 'cancelled';
     }
 
-    console.log(`🚀 Starting to process image ${imageIndex + 1}: ${imageToProcess.file.name}`);
+    console.log(`🚀 Starting to process image: ${imageToProcess.file.name}`);
+    const settings = imageToProcess.settings || batchSettingsRef.current;
 
     // Update status to processing
-    setProcessedImages(prev => {
-      const updated = [...prev];
-      updated[imageIndex] = { ...updated[imageIndex], status: 'processing' as const, progress: 0 };
-      processedImagesRef.current = updated;
-      return updated;
+    const startedAt = Date.now();
+    updateImage(id, {
+      status: 'processing',
+      progress: 0,
+      progressMessage: undefined,
+      retries: 0,
+      startedAt,
+      finishedAt: undefined,
+      durationMs: undefined,
+      credits: undefined
     });
 
+    const abortController = new AbortController();
+    abortControllersRef.current.set(id, abortController);
+
     try {
+      let lastProgressAt = 0;
       const progressCallback = (progressData: UpscaleProgress) => {
-        // Throttle progress updates more aggressively to reduce screen shaking
-        const progress = progressData.progress || 0;
-        const roundedProgress = Math.round(progress / 10) * 10; // Round to nearest 10%
-        
-        setProcessedImages(prev => {
-          const current = prev[imageIndex];
-          // Only update if progress changed significantly (10% or more)
-          if (current && Math.abs(current.progress - roundedProgress) >= 10) {
-            const updated = [...prev];
-            updated[imageIndex] = { ...updated[imageIndex], progress: roundedProgress };
-            processedImagesRef.current = updated;
-            return updated;
+        // The pipeline throws the typed provider error (with its status)
+        // right after reporting a failure, and the catch below handles it
+        if (progressData.status === 'failed') return;
+
+        const progress = Math.round(progressData.progress || 0);
+
+        // Retries are shown and counted immediately, whatever the progress
+        if (progressData.retry) {
+          if (progressData.retry.status === 429) {
+            queue.reportRateLimit();
           }
-          return prev; // No update needed
-        });
+          updateImage(id, { progressMessage: progressData.message, retries: (getImage(id)?.retries || 0) + 1 });
+          return;
+        }
 
-        if (progressData.status === 'failed') {
-          throw new Error(progressData.message || 'Processing failed');
+        const current = getImage(id);
+        const time = Date.now();
+        if (current && current.progress !== progress && (time - lastProgressAt >= PROGRESS_INTERVAL_MS || progress === 100)) {
+          lastProgressAt = time;
+          updateImage(id, { progress, progressMessage: progressData.message });
         }
       };
 
-      const upscaledBlob = await stabilityAI.upscaleImage(
-        imageToProcess.file,
-        { scale: selectedScaleRef.current, format: 'png' },
-        progressCallback
+      const input = await applyImageEdit(imageToProcess.file, imageToProcess.edit);
+      const result = await upscaleToSize(
+        upscaleProviders.get(selectedProviderIdRef.current),
+        input,
+        itemOutputSize(settings),
+        { ...toFormatOptions(settings.encoding), mode: settings.mode, signal: abortController.signal },
+        progressCallback,
+        {
+          fallbackProvider: upscaleProviders.getFallback(),
+          retryPolicy: { ...DEFAULT_RETRY_POLICY, maxAttempts: maxAttemptsRef.current },
+          metadata: metadataPolicyRef.current,
+          measureQuality: true,
+          cache: true
+        }
       );
+      const finishedAt = Date.now();
+      const upscaledBlob = result.blob;
 
-      const processedUrl = URL.createObjectURL(upscaledBlob);
-      
-      // Update as completed with force re-render
-      const completedImage = {
-        ...imageToProcess,
-        status: 'completed' as const, 
-        progress: 100,
-        processedUrl,
-        processedBlob: upscaledBlob,
-        scale: selectedScaleRef.current
-      };
+      // Priced like the estimate, by whichever provider actually ran
+      const usedProvider = upscaleProviders.get(result.providerId);
+      const credits = result.cached || usedProvider.free
+        ? 0
+        : await StabilityAIService.estimateCreditCost(input, result.scale, usedProvider.getInputLimits?.(settings.mode, result.scale));
 
-      setProcessedImages(prev => {
-        const updated = [...prev];
-        updated[imageIndex] = completedImage;
-        processedImagesRef.current = updated;
-        console.log(`✅ Image ${imageIndex + 1} completed successfully:`, {
-          hasBlob: !!upscaledBlob,
-          hasUrl: !!processedUrl,
-          fileName: imageToProcess.file.name,
-          status: completedImage.status
-        });
-        return updated;
+      const stored = await batchStore.saveResult(id, upscaledBlob);
+      thumbnails.invalidate(`result:${id}`);
+
+      updateImage(id, {
+        status: 'completed',
+        progress: 100,
+        processedBlob: stored ? undefined : upscaledBlob,
+        resultType: upscaledBlob.type,
+        scale: result.scale,
+        outputWidth: result.width,
+        outputHeight: result.height,
+        providerId: result.providerId,
+        mode: settings.mode,
+        inputChanges: [...(isEdited(imageToProcess.edit) ? describeEdit(imageToProcess.edit) : []), ...result.inputChanges],
+        retries: result.retries,
+        quality: result.quality,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+        credits
       });
+      console.log(`✅ Image completed successfully: ${imageToProcess.file.name}`);
 
       toast({
         title: "Image Processed!",
-        description: `${imageToProcess.file.name} upscaled ${selectedScaleRef.current}x successfully!`,
+        description: `${imageToProcess.file.name} upscaled ${formatScale(result.scale)} to ${result.width} × ${result.height}px${result.usedFallback ? ` using ${upscaleProviders.get(result.providerId).name}` : ''}${result.cached ? ' (from cache, no credits used)' : ''}!`,
       });
+      return result.cached || result.usedFallback ? 'cached' : 'completed';
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
-      // Update as failed with force re-render
-      const failedImage = {
-        ...imageToProcess,
-        status: 'failed' as const, 
-        progress: 0,
-        error: errorMessage
-      };
+      if (isCancellation(error)) {
+        console.log(`🛑 Image cancelled: ${imageToProcess.file.name}`);
+        updateImage(id, { status: 'cancelled', progress: 0, finishedAt: Date.now() });
+        return 'cancelled';
+      }
 
-      setProcessedImages(prev => {
-        const updated = [...prev];
-        updated[imageIndex] = failedImage;
-        processedImagesRef.current = updated;
-        return updated;
-      });
+      // Without retries a 429 only shows up here
+      if (error instanceof UpscaleProviderError && error.status === 429) {
+        queue.reportRateLimit();
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      updateImage(id, { status: 'failed', progress: 0, error: errorMessage, finishedAt: Date.now() });
 
       toast({
         title: "Processing Failed",
         description: `${imageToProcess.file.name}: ${errorMessage}`,
         variant: "destructive",
       });
+      return 'failed';
+    } finally {
+      abortControllersRef.current.delete(id);
     }
-  }, [toast]);
-
-  // Add a ref to prevent multiple simultaneous calls to startParallelProcessing
-  const isProcessingQueueRef = useRef(false);
-
-  const startParallelProcessing = useCallback(async () => {
-    if (isPausedRef.current) {
-      console.log('⏸️ Processing paused, skipping');
-      return;
-    }
-
-    // Prevent multiple simultaneous calls
-    if (isProcessingQueueRef.current) {
-      console.log('🔄 Queue already being processed, skipping');
-      return;
-    }
+  }, [queue, updateImage, toast]);
 
-    isProcessingQueueRef.current = true;
+  useEffect(() => {
+    processImageRef.current = processImage;
+  }, [processImage]);
 
-    try {
-      const currentImages = processedImagesRef.current;
-      const pendingIndices = currentImages
-        .map((img, index) => ({ img, index }))
-        .filter(({ img }) => img.status === 'pending')
-        .map(({ index }) => index);
-      
-      const processingCount = currentImages.filter(img => img.status === 'processing').length;
-      const availableSlots = maxConcurrentProcessing - processingCount;
-      
-      // Reduce console logging to improve performance
-      if (pendingIndices.length > 0 || processingCount > 0) {
-        console.log('🔍 Queue status:', {
-          pending: pendingIndices.length,
-          processing: processingCount,
-          completed: currentImages.filter(img => img.status === 'completed').length,
-          availableSlots
-        });
-      }
-      
-      if (pendingIndices.length === 0 && processingCount === 0) {
-        // All images processed
-        console.log('✅ All images processed, finishing batch');
-        setIsProcessing(false);
-        setCurrentProcessingIndex(-1);
-        onProcessingComplete(currentImages);
-        return;
-      }
+  useEffect(() => {
+    queue.setCeiling(maxConcurrentProcessing);
+  }, [queue, maxConcurrentProcessing]);
 
-      // Start processing up to available slots
-      const indicesToProcess = pendingIndices.slice(0, availableSlots);
-      
-      if (indicesToProcess.length > 0) {
-        console.log(`🚀 Processing ${indicesToProcess.length} images`);
-        
-        // Process images in parallel without recursive calls
-        const processingPromises = indicesToProcess.map(index => 
-          processImageAtIndex(index).catch(error => {
-            console.error(`❌ Image ${index} failed:`, error.message);
-            return null; // Continue processing other images even if one fails
-          })
-        );
-
-        // Wait for at least one image to complete before checking queue again
-        Promise.race(processingPromises).then(() => {
-          setTimeout(() => {
-            if (!isPausedRef.current) {
-              startParallelProcessing();
-            }
-          }, 1000); // Increased delay to reduce resource usage
-        });
+  useEffect(() => queue.subscribe((event) => {
+    if (event.type === 'concurrency') {
+      setConcurrencyLimit(event.limit);
+    } else if (event.type === 'drained') {
+      console.log('✅ All images processed, finishing batch');
+      if (runStartedAtRef.current !== null) {
+        setBatchSummary(summarizeRun(processedImagesRef.current, runStartedAtRef.current, Date.now()));
       }
-    } finally {
-      isProcessingQueueRef.current = false;
+      setIsProcessing(false);
+      setIsPaused(false);
+      onProcessingComplete(processedImagesRef.current);
     }
-  }, [processImageAtIndex, onProcessingComplete, maxConcurrentProcessing]);
+  }), [queue, onProcessingComplete]);
 
   const handleStartProcessing = useCallback(() => {
+    const pendingIds = processedImagesRef.current.filter(img => img.status === 'pending').map(img => img.id);
+    if (pendingIds.length === 0) return;
+    const startedAt = Date.now();
+    runStartedAtRef.current = startedAt; // Read when the queue drains
+    setRunStartedAt(startedAt);
+    setBatchSummary(null);
     setIsProcessing(true);
     setIsPaused(false);
-    startParallelProcessing();
-  }, [startParallelProcessing]);
+    queue.resume();
+    queue.enqueue(pendingIds);
+  }, [queue]);
 
   const handlePauseResume = useCallback(() => {
-    setIsPaused(!isPaused);
     if (isPaused) {
-      // Resume processing
-      startParallelProcessing();
+      queue.resume();
+    } else {
+      // Running images finish; nothing new starts until resumed
+      queue.pause();
     }
-  }, [isPaused, startParallelProcessing]);
+    setIsPaused(!isPaused);
+  }, [isPaused, queue]);
 
   const handleRetryFailed = useCallback(() => {
-    setProcessedImages(prev => prev.map(img => 
-      img.status === 'failed' ? { ...img, status: 'pending' as const, progress: 0, error: undefined } : img
-    ));
-  }, []);
+    const retried = processedImagesRef.current.filter(img => img.status === 'failed').map(img => img.id);
+    updateImages(img =>
+      retried.includes(img.id) ? { ...img, status: 'pending' as const, progress: 0, error: undefined } : img
+    );
+    // Like re-queued images: a running batch picks them up, otherwise they wait for Start
+    if (isProcessing) {
+      queue.enqueue(retried);
+    }
+  }, [isProcessing, queue, updateImages]);
 
-  const handleDownloadAll = useCallback(() => {
-    const completedImages = processedImages.filter(img => img.status === 'completed' && img.processedBlob);
-    
-    completedImages.forEach((image, index) => {
-      if (image.processedBlob) {
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(image.processedBlob);
-        link.download = `upscaled-${image.file.name.split('.')[0]}-${selectedScale}x.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        // Add delay between downloads to avoid browser blocking
-        if (index < completedImages.length - 1) {
-          setTimeout(() => {}, 100);
-        }
+  // Pending images are taken out of the queue; running ones are aborted and
+  // marked cancelled once their request unwinds
+  const handleCancelImage = useCallback((id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+    queue.remove(id);
+    updateImages(img =>
+      img.id === id && img.status === 'pending' ? { ...img, status: 'cancelled' as const } : img
+    );
+  }, [queue, updateImages]);
+
+  const handleCancelAll = useCallback(() => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+    updateImages(img =>
+      img.status === 'pending' ? { ...img, status: 'cancelled' as const } : img
+    );
+    setIsPaused(false);
+    queue.clear();
+    queue.resume();
+
+    toast({
+      title: "Batch Cancelled",
+      description: "Unfinished images were cancelled. Re-queue them to process them later.",
+    });
+  }, [queue, updateImages, toast]);
+
+  const { draggingId, overId, getItemProps } = useDragReorder((fromId, toId) => {
+    onReorder(moveId(processedImagesRef.current.map(image => image.id), fromId, toId));
+  });
+
+  // Moves an image ahead of everything still waiting; a running batch starts
+  // it in the next free slot
+  const handleProcessNext = useCallback((id: string) => {
+    const ids = processedImagesRef.current.map(image => image.id);
+    const firstWaiting = processedImagesRef.current.find(image => image.status === 'pending' && image.id !== id);
+    queue.prioritize(id);
+    if (firstWaiting && ids.indexOf(firstWaiting.id) < ids.indexOf(id)) {
+      onReorder(moveId(ids, id, firstWaiting.id));
+    }
+  }, [queue, onReorder]);
+
+  const handleRequeue = useCallback((id?: string) => {
+    const requeued = processedImagesRef.current
+      .filter(img => img.status === 'cancelled' && (!id || img.id === id))
+      .map(img => img.id);
+    updateImages(img =>
+      requeued.includes(img.id) ? { ...img, status: 'pending' as const, progress: 0 } : img
+    );
+    // A running batch picks them up straight away; otherwise they wait for Start
+    if (isProcessing) {
+      queue.enqueue(requeued);
+    }
+  }, [isProcessing, queue, updateImages]);
+
+  // Stop in-flight requests when the batch is discarded
+  useEffect(() => {
+    const controllers = abortControllersRef.current;
+    return () => {
+      queue.clear();
+      controllers.forEach(controller => controller.abort());
+    };
+  }, [queue]);
+
+  const toExportItem = useCallback((image: ProcessedImage, index: number): BatchExportItem => ({
+    sourceFile: image.file,
+    resultType: image.resultType || 'image/png',
+    loadResult: () => loadResult(image),
+    index: index + 1,
+    scale: image.scale || selectedScale,
+    width: image.outputWidth || 0,
+    height: image.outputHeight || 0,
+    providerId: image.providerId,
+    mode: image.mode,
+    retries: image.retries,
+    inputChanges: image.inputChanges,
+    quality: image.quality,
+    nameTemplate: image.settings?.nameTemplate
+  }), [selectedScale]);
+
+  const getExportItems = useCallback((): BatchExportItem[] => (
+    processedImages
+      .map((image, index) => ({ image, index }))
+      .filter(({ image }) => hasResult(image))
+      .map(({ image, index }) => toExportItem(image, index))
+  ), [processedImages, toExportItem]);
+
+  // One streamed ZIP instead of an anchor click per image, which browsers block
+  const handleDownloadAll = useCallback(async () => {
+    const items = getExportItems();
+    if (items.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const archive = createBatchZip(items, { includeOriginals, manifest: manifestFormat, nameTemplate });
+      const fileName = `upscaled-images-${new Date().toISOString().slice(0, 10)}.zip`;
+      const saved = await saveStream(archive, fileName, 'application/zip', '.zip');
+      if (saved) {
+        toast({
+          title: "ZIP Ready",
+          description: `Saved ${items.length} processed image${items.length !== 1 ? 's' : ''}${includeOriginals ? ' with originals' : ''} to ${fileName}.`,
+        });
       }
+    } catch (error) {
+      console.error('❌ ZIP export failed:', error);
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : 'Could not create the ZIP archive.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [getExportItems, includeOriginals, manifestFormat, nameTemplate, toast]);
+
+  const templatePreview = useMemo(() => {
+    const [first] = getExportItems();
+    return getResultFileName(first || {
+      sourceFile: new File([], 'photo.jpg'),
+      resultType: 'image/png',
+      loadResult: async () => new Blob([], { type: 'image/png' }),
+      index: 1,
+      scale: selectedScale,
+      width: 0,
+      height: 0
+    }, nameTemplate);
+  }, [getExportItems, nameTemplate, selectedScale]);
+
+  // Pending items only know their scale up front in multiplier mode
+  const getScaleLabel = (image: ProcessedImage) => {
+    if (image.status === 'completed' && image.scale) {
+      return formatScale(image.scale);
+    }
+    const settings = getSettings(image);
+    return settings.sizeMode === 'target' ? getSizePreset(settings).label : formatScale(settings.scale);
+  };
+
+  // Credits still to be spent, each image priced with its own settings
+  const creditItems = useMemo(() => processedImages
+    .filter(isEditable)
+    .map(image => {
+      const settings = image.settings || batchSettings;
+      return { file: image.file, size: itemOutputSize(settings), mode: settings.mode, edit: image.edit };
+    }), [processedImages, batchSettings]);
+  const estimatedCredits = useCreditEstimate(creditItems, selectedProvider);
+
+  const editableIds = processedImages.filter(isEditable).map(image => image.id);
+  const selectedEditableIds = editableIds.filter(id => selectedIds.has(id));
+
+  // Selections only hold images still in the batch
+  useEffect(() => {
+    setSelectedIds(current => {
+      const remaining = new Set([...current].filter(id => processedImages.some(image => image.id === id)));
+      return remaining.size === current.size ? current : remaining;
     });
+  }, [processedImages]);
 
-    toast({
-      title: "Downloads Started",
-      description: `Downloading ${completedImages.length} processed images...`,
+  const toggleSelected = useCallback((id: string, checked: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
     });
-  }, [processedImages, selectedScale, toast]);
+  }, []);
+
+  const openSettings = useCallback((ids: string[], isSelection: boolean) => {
+    const first = processedImagesRef.current.find(image => image.id === ids[0]);
+    setSettingsDialog({ ids, isSelection, value: first?.settings || batchSettingsRef.current });
+  }, []);
+
+  // Overrides only touch images that haven't run yet
+  const setItemSettings = useCallback((ids: string[], settings: ItemSettings | undefined) => {
+    const targets = new Set(ids);
+    updateImages(img => targets.has(img.id) && isEditable(img) ? { ...img, settings } : img);
+  }, [updateImages]);
+
+  const handleApplySettings = useCallback((settings: ItemSettings, scope: SettingsScope) => {
+    if (!settingsDialog) return;
+    const ids = scope === 'all'
+      ? processedImagesRef.current.map(image => image.id)
+      : scope === 'selected'
+      ? [...settingsDialog.ids, ...selectedIds]
+      : settingsDialog.ids;
+    setItemSettings(ids, settings);
+    setSettingsDialog(null);
+  }, [settingsDialog, selectedIds, setItemSettings]);
 
   const statusCounts = useMemo(() => {
     const counts = {
       completed: 0,
       failed: 0,
       pending: 0,
-      processing: 0
+      processing: 0,
+      paused: 0,
+      cancelled: 0
     };
     
     processedImages.forEach(img => {
@@ -338,7 +737,40 @@ const MultiImageProcessor = ({
     return counts;
   }, [processedImages]);
 
-  const { completed: completedCount, failed: failedCount, pending: pendingCount, processing: processingCount } = statusCounts;
+  const { completed: completedCount, failed: failedCount, pending: pendingCount, processing: processingCount, cancelled: cancelledCount } = statusCounts;
+  const retryCount = processedImages.reduce((total, img) => total + (img.retries || 0), 0);
+
+  const throughput = isProcessing && runStartedAt !== null ? getThroughput(processedImages, runStartedAt, now) : null;
+  const remainingMs = isProcessing ? estimateRemainingMs(processedImages, concurrencyLimit, now) : null;
+
+  const comparingImage = processedImages.find(image => image.id === comparingId && hasResult(image));
+  const editingImage = processedImages.find(image => image.id === editingId);
+
+  // Full-size images are only loaded while the comparison is open. Cropped
+  // images are compared against the crop, not the whole original.
+  const isComparing = !!comparingImage;
+  useEffect(() => {
+    setComparingUrls(null);
+    const image = processedImagesRef.current.find(img => img.id === comparingId);
+    if (!isComparing || !image) return;
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all([
+      isEdited(image.edit) ? applyImageEdit(image.file, image.edit) : image.file,
+      loadResult(image)
+    ]).then(
+      ([original, processed]) => {
+        if (cancelled) return;
+        urls.push(URL.createObjectURL(original), URL.createObjectURL(processed));
+        setComparingUrls({ original: urls[0], processed: urls[1] });
+      },
+      (error) => console.warn('⚠️ Could not load images for comparison:', error)
+    );
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [comparingId, isComparing]);
 
   return (
     <div className="w-full max-w-6xl mx-auto space-y-6">
@@ -351,21 +783,155 @@ const MultiImageProcessor = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid md:grid-cols-3 gap-4">
+          {providerOptions.length > 1 && (
             <div>
               <label className="text-white/90 text-sm font-medium mb-2 block">
-                Upscaling Factor
+                Upscaling Engine
               </label>
               <Select 
-                value={selectedScale.toString()} 
-                onValueChange={(value) => setSelectedScale(Number(value))}
+                value={selectedProviderId} 
+                onValueChange={handleProviderChange}
                 disabled={isProcessing}
               >
                 <SelectTrigger className="bg-white/10 border-white/20 text-white">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent className="bg-gray-900 border-gray-700">
-                  {scaleOptions.map((option) => (
+                  {providerOptions.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{provider.name}</span>
+                        {provider.description && <span className="text-xs text-gray-400">{provider.description}</span>}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {selectedProvider.modes && selectedMode && (
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Upscaling Mode
+              </label>
+              <Select 
+                value={selectedMode} 
+                onValueChange={(value) => setSelectedMode(value as UpscaleMode)}
+                disabled={isProcessing}
+              >
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {selectedProvider.modes.map((mode) => (
+                    <SelectItem key={mode.id} value={mode.id} className="text-white hover:bg-gray-800">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{mode.name}</span>
+                        <span className="text-xs text-gray-400">{mode.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <label className="text-white/90 text-sm font-medium mb-2 block">
+              Output Size
+            </label>
+            <Select 
+              value={sizeMode} 
+              onValueChange={(value) => setSizeMode(value as 'scale' | 'target')}
+              disabled={isProcessing}
+            >
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                <SelectItem value="scale" className="text-white hover:bg-gray-800">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Multiplier</span>
+                    <span className="text-xs text-gray-400">Scale width and height by a fixed factor</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="target" className="text-white hover:bg-gray-800">
+                  <div className="flex flex-col">
+                    <span className="font-medium">Target size</span>
+                    <span className="text-xs text-gray-400">Fit every image to a resolution or long edge</span>
+                  </div>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {sizeMode === 'target' ? (
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Target Size
+                </label>
+                <Select 
+                  value={selectedPresetId} 
+                  onValueChange={setSelectedPresetId}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {TARGET_SIZE_PRESETS.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{preset.label}</span>
+                          <span className="text-xs text-gray-400">{preset.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Upscaling Factor
+                </label>
+                <Select 
+                  value={selectedScale.toString()} 
+                  onValueChange={(value) => setSelectedScale(Number(value))}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {BATCH_SCALE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{option.label}</span>
+                          <span className="text-xs text-gray-400">{option.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <label className="text-white/90 text-sm font-medium mb-2 block">
+                Max Concurrency
+              </label>
+              <Select 
+                value={maxConcurrentProcessing.toString()} 
+                onValueChange={(value) => setMaxConcurrentProcessing(Number(value))}
+              >
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {concurrencyOptions.map((option) => (
                     <SelectItem key={option.value} value={option.value.toString()} className="text-white hover:bg-gray-800">
                       <div className="flex flex-col">
                         <span className="font-medium">{option.label}</span>
@@ -375,15 +941,20 @@ const MultiImageProcessor = ({
                   ))}
                 </SelectContent>
               </Select>
+              {isProcessing && (
+                <p className="text-xs text-white/60 mt-1">
+                  Adaptive: running up to {concurrencyLimit} at a time
+                </p>
+              )}
             </div>
 
             <div>
               <label className="text-white/90 text-sm font-medium mb-2 block">
-                Concurrent Processing
+                Automatic Retries
               </label>
               <Select 
-                value={maxConcurrentProcessing.toString()} 
-                onValueChange={(value) => setMaxConcurrentProcessing(Number(value))}
+                value={maxAttempts.toString()} 
+                onValueChange={(value) => setMaxAttempts(Number(value))}
                 disabled={isProcessing}
               >
                 <SelectTrigger className="bg-white/10 border-white/20 text-white">
@@ -392,20 +963,20 @@ const MultiImageProcessor = ({
                 <SelectContent className="bg-gray-900 border-gray-700">
                   <SelectItem value="1" className="text-white hover:bg-gray-800">
                     <div className="flex flex-col">
-                      <span className="font-medium">1 at a time</span>
-                      <span className="text-xs text-gray-400">Sequential (safest)</span>
+                      <span className="font-medium">Off</span>
+                      <span className="text-xs text-gray-400">Fail on the first error</span>
                     </div>
                   </SelectItem>
-                  <SelectItem value="2" className="text-white hover:bg-gray-800">
+                  <SelectItem value="4" className="text-white hover:bg-gray-800">
                     <div className="flex flex-col">
-                      <span className="font-medium">2 at a time</span>
-                      <span className="text-xs text-gray-400">Moderate speed (default)</span>
+                      <span className="font-medium">Up to 3 retries</span>
+                      <span className="text-xs text-gray-400">On rate limits, server errors and timeouts (default)</span>
                     </div>
                   </SelectItem>
-                  <SelectItem value="3" className="text-white hover:bg-gray-800">
+                  <SelectItem value="6" className="text-white hover:bg-gray-800">
                     <div className="flex flex-col">
-                      <span className="font-medium">3 at a time</span>
-                      <span className="text-xs text-gray-400">Fastest</span>
+                      <span className="font-medium">Up to 5 retries</span>
+                      <span className="text-xs text-gray-400">For busy periods, waits longer</span>
                     </div>
                   </SelectItem>
                 </SelectContent>
@@ -431,15 +1002,81 @@ const MultiImageProcessor = ({
                     {failedCount} Failed
                   </Badge>
                 )}
+                {cancelledCount > 0 && (
+                  <Badge variant="secondary" className="bg-gray-500/20 text-gray-300">
+                    {cancelledCount} Cancelled
+                  </Badge>
+                )}
+                {retryCount > 0 && (
+                  <Badge variant="secondary" className="bg-orange-500/20 text-orange-300">
+                    {retryCount} {retryCount === 1 ? 'Retry' : 'Retries'}
+                  </Badge>
+                )}
               </div>
+              {creditItems.length > 0 && !selectedProvider.free && (
+                <p className="text-xs text-white/60 mt-2">
+                  Estimated cost: {estimatedCredits === null ? 'calculating...' : `${estimatedCredits} credit${estimatedCredits !== 1 ? 's' : ''}`} for {creditItems.length} image{creditItems.length !== 1 ? 's' : ''}
+                </p>
+              )}
+              {isProcessing && runStartedAt !== null && (
+                <p className="text-xs text-white/60 mt-1">
+                  Elapsed {formatDuration(now - runStartedAt)}
+                  {' · '}
+                  {isPaused ? 'Paused' : remainingMs === null ? 'Estimating time left...' : `About ${formatDuration(remainingMs)} left`}
+                  {throughput && ` · ${throughput.imagesPerMinute.toFixed(1)} images/min · ${throughput.megapixelsPerMinute.toFixed(1)} MP/min`}
+                </p>
+              )}
             </div>
           </div>
 
+          <div className="grid md:grid-cols-2 gap-4">
+            <OutputFormatSettings
+              value={encoding}
+              onChange={setEncoding}
+              disabled={isProcessing}
+              estimatedSize={estimatedSize}
+              estimateLabel="Estimated total size"
+            />
+            <MetadataPolicySelect value={metadataPolicy} onChange={setMetadataPolicy} disabled={isProcessing} />
+          </div>
+
+          {completedCount > 0 && (
+            <div className="grid md:grid-cols-3 gap-4 p-4 bg-white/5 rounded-lg">
+              <FilenameTemplateInput value={nameTemplate} onChange={setNameTemplate} preview={templatePreview} />
+
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Manifest
+                </label>
+                <Select value={manifestFormat} onValueChange={(value) => setManifestFormat(value as ManifestFormat)}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    <SelectItem value="none" className="text-white hover:bg-gray-800">None</SelectItem>
+                    <SelectItem value="json" className="text-white hover:bg-gray-800">JSON</SelectItem>
+                    <SelectItem value="csv" className="text-white hover:bg-gray-800">CSV</SelectItem>
+                    <SelectItem value="both" className="text-white hover:bg-gray-800">JSON + CSV</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="text-white/90 text-sm font-medium mb-2 block">
+                  Include Originals
+                </label>
+                <div className="flex items-center gap-2 h-10">
+                  <Switch checked={includeOriginals} onCheckedChange={setIncludeOriginals} />
+                  <span className="text-xs text-white/60">Adds source files under originals/</span>
+                </div>
+              </div>
+            </div>
+          )}
           <div className="flex gap-2 flex-wrap">
             {!isProcessing ? (
               <Button
                 onClick={handleStartProcessing}
-                disabled={processedImages.length === 0 || completedCount === processedImages.length}
+                disabled={pendingCount === 0}
                 className="bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white font-semibold transition-all duration-300 transform hover:scale-105"
               >
                 <Zap className="w-4 h-4 mr-2" />
@@ -455,6 +1092,17 @@ const MultiImageProcessor = ({
               </Button>
             )}
 
+            {isProcessing && (
+              <Button
+                onClick={handleCancelAll}
+                variant="outline"
+                className="bg-red-500/20 border-red-500/30 text-red-300 hover:bg-red-500/30"
+              >
+                <X className="w-4 h-4 mr-2" />
+                Cancel Batch
+              </Button>
+            )}
+
             {failedCount > 0 && (
               <Button
                 onClick={handleRetryFailed}
@@ -467,25 +1115,140 @@ const MultiImageProcessor = ({
               </Button>
             )}
 
+            {cancelledCount > 0 && (
+              <Button
+                onClick={() => handleRequeue()}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Re-queue Cancelled ({cancelledCount})
+              </Button>
+            )}
+
             {completedCount > 0 && (
               <Button
                 onClick={handleDownloadAll}
+                disabled={isExporting}
                 className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Download All ({completedCount})
+                {isExporting ? 'Preparing ZIP...' : `Download ZIP (${completedCount})`}
               </Button>
             )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Summary of the last run */}
+      {batchSummary && !isProcessing && (
+        <Card className="bg-white/10 backdrop-blur-lg border border-white/20">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-white text-lg flex items-center gap-2">
+                <Timer className="w-5 h-5" />
+                Batch Summary
+              </CardTitle>
+              <Button
+                onClick={() => setBatchSummary(null)}
+                size="sm"
+                variant="ghost"
+                className="text-white/70 hover:text-white hover:bg-white/10"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Total Time', value: formatDuration(batchSummary.totalMs) },
+                {
+                  label: 'Images',
+                  value: `${batchSummary.completed} done${batchSummary.failed > 0 ? `, ${batchSummary.failed} failed` : ''}${batchSummary.cancelled > 0 ? `, ${batchSummary.cancelled} cancelled` : ''}`
+                },
+                { label: 'Average per Image', value: batchSummary.completed > 0 ? formatDuration(batchSummary.averageMs) : '-' },
+                {
+                  label: 'Throughput',
+                  value: batchSummary.totalMs > 0 ? `${((batchSummary.completed * 60000) / batchSummary.totalMs).toFixed(1)} images/min` : '-'
+                },
+                { label: 'Output', value: `${batchSummary.megapixels.toFixed(1)} MP` },
+                { label: 'Retries', value: batchSummary.retries.toString() },
+                { label: 'Credits Spent (est.)', value: `${batchSummary.credits} credit${batchSummary.credits !== 1 ? 's' : ''}` }
+              ].map(({ label, value }) => (
+                <div key={label}>
+                  <p className="text-xs text-white/60">{label}</p>
+                  <p className="text-white font-semibold">{value}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Selection and bulk settings */}
+      {editableIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/80">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={selectedEditableIds.length === editableIds.length ? true : selectedEditableIds.length > 0 ? 'indeterminate' : false}
+              onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(editableIds) : new Set())}
+              className="border-white/40"
+            />
+            {selectedEditableIds.length > 0 ? `${selectedEditableIds.length} selected` : 'Select all'}
+          </label>
+          {selectedEditableIds.length > 0 && (
+            <>
+              <Button
+                onClick={() => openSettings(selectedEditableIds, true)}
+                size="sm"
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <SlidersHorizontal className="w-3 h-3 mr-1" />
+                Settings for Selected
+              </Button>
+              <Button
+                onClick={() => setItemSettings(selectedEditableIds, undefined)}
+                size="sm"
+                variant="ghost"
+                className="text-white/70 hover:text-white hover:bg-white/10"
+              >
+                Use Batch Settings
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Images Grid */}
-      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {processedImages.map((image, index) => (
-          <Card key={image.id} className="bg-white/10 backdrop-blur-lg border border-white/20">
+      <VirtualGrid
+        items={processedImages}
+        getKey={image => image.id}
+        minColumnWidth={300}
+        maxColumns={3}
+        gap={24}
+        estimatedRowHeight={520}
+        renderItem={(image, index) => (
+          <Card
+            key={image.id}
+            {...getItemProps(image.id)}
+            className={`bg-white/10 backdrop-blur-lg border ${
+              (selectedIds.has(image.id) && isEditable(image)) || (overId === image.id && draggingId !== image.id) ? 'border-purple-400/70' : 'border-white/20'
+            } ${draggingId === image.id ? 'opacity-50' : ''}`}
+          >
             <CardHeader className="pb-2">
               <div className="flex items-center justify-between">
+                <GripVertical className="w-4 h-4 mr-1 shrink-0 text-white/40 cursor-grab" aria-label="Drag to reorder" />
+                {isEditable(image) && (
+                  <Checkbox
+                    checked={selectedIds.has(image.id)}
+                    onCheckedChange={(checked) => toggleSelected(image.id, checked === true)}
+                    className="border-white/40 mr-2"
+                    aria-label={`Select ${image.file.name}`}
+                  />
+                )}
                 <CardTitle className="text-white text-sm truncate flex-1 mr-2">
                   {image.file.name}
                 </CardTitle>
@@ -495,6 +1258,7 @@ const MultiImageProcessor = ({
                   {image.status === 'completed' && <Badge className="bg-green-500/20 text-green-300 min-w-[70px] justify-center"><CheckCircle className="w-3 h-3 mr-1" />Done</Badge>}
                   {image.status === 'failed' && <Badge className="bg-red-500/20 text-red-300 min-w-[70px] justify-center"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>}
                   {image.status === 'paused' && <Badge className="bg-orange-500/20 text-orange-300 min-w-[70px] justify-center">Paused</Badge>}
+                  {image.status === 'cancelled' && <Badge className="bg-gray-500/20 text-gray-300 min-w-[70px] justify-center"><Ban className="w-3 h-3 mr-1" />Cancelled</Badge>}
                 </div>
               </div>
             </CardHeader>
@@ -503,22 +1267,35 @@ const MultiImageProcessor = ({
                 {/* Original Image */}
                 <div>
                   <p className="text-xs text-white/70 mb-1">Original</p>
-                  <img
-                    src={image.url}
-                    alt="Original"
-                    className="w-full aspect-square object-cover rounded-lg"
-                  />
+                  <div className="relative">
+                    <Thumbnail
+                      thumbnailKey={`source:${image.id}`}
+                      load={() => Promise.resolve(image.file)}
+                      alt="Original"
+                      className="w-full aspect-square object-cover rounded-lg"
+                    />
+                    {isEdited(image.edit) && (
+                      <Badge
+                        className="absolute bottom-1 left-1 bg-purple-500/80 text-white text-[10px] px-1.5"
+                        title={describeEdit(image.edit).join('. ')}
+                      >
+                        <Crop className="w-3 h-3 mr-1" />
+                        Edited
+                      </Badge>
+                    )}
+                  </div>
                 </div>
 
                 {/* Processed Image */}
                 <div>
                   <p className="text-xs text-white/70 mb-1">
-                    Upscaled {image.scale || selectedScale}x
+                    Upscaled {getScaleLabel(image)}
                     {image.status === 'completed' && <Star className="w-3 h-3 inline ml-1 text-yellow-400" />}
                   </p>
-                  {image.processedUrl ? (
-                    <img
-                      src={image.processedUrl}
+                  {hasResult(image) ? (
+                    <Thumbnail
+                      thumbnailKey={`result:${image.id}`}
+                      load={() => loadResult(image)}
                       alt="Processed"
                       className="w-full aspect-square object-cover rounded-lg"
                     />
@@ -535,6 +1312,7 @@ const MultiImageProcessor = ({
                           {image.status === 'pending' && 'Waiting...'}
                           {image.status === 'processing' && 'Processing...'}
                           {image.status === 'failed' && 'Failed'}
+                          {image.status === 'cancelled' && 'Cancelled'}
                         </p>
                       </div>
                     </div>
@@ -546,15 +1324,38 @@ const MultiImageProcessor = ({
               <div className="space-y-1 min-h-[24px]">
                 {(image.status === 'processing' || image.status === 'completed') && (
                   <>
-                    <div className="flex justify-between text-xs text-white/70">
-                      <span>Progress</span>
-                      <span>{Math.round(image.progress)}%</span>
+                    <div className="flex justify-between gap-2 text-xs text-white/70">
+                      <span className="truncate" title={image.progressMessage}>
+                        {image.status === 'processing' && image.progressMessage ? image.progressMessage : 'Progress'}
+                      </span>
+                      <span className="shrink-0">
+                        {image.status === 'processing' && image.startedAt !== undefined && `${formatDuration(now - image.startedAt)} · `}
+                        {image.status === 'completed' && image.durationMs !== undefined && `${formatDuration(image.durationMs)} · `}
+                        {Math.round(image.progress)}%
+                      </span>
                     </div>
                     <Progress value={image.progress} className="h-2" />
                   </>
                 )}
               </div>
 
+              {image.settings && isEditable(image) && (
+                <p className="text-xs text-purple-300 truncate" title="This image has its own settings">
+                  <SlidersHorizontal className="w-3 h-3 inline mr-1" />
+                  {describeItemSettings(image.settings)}
+                </p>
+              )}
+
+              {/* Adjustments made to fit the provider's limits */}
+              {image.inputChanges && image.inputChanges.length > 0 && (
+                <Alert className="bg-blue-500/10 border-blue-500/20">
+                  <AlertCircle className="h-3 w-3 text-blue-400" />
+                  <AlertDescription className="text-blue-300 text-xs">
+                    {image.inputChanges.join('. ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Error Message */}
               {image.status === 'failed' && image.error && (
                 <Alert className="bg-red-500/10 border-red-500/20">
@@ -565,22 +1366,91 @@ const MultiImageProcessor = ({
                 </Alert>
               )}
 
+              {/* Per-image Cancel / Re-queue */}
+              {(image.status === 'pending' || image.status === 'processing') && (
+                <div className={`grid gap-2 ${image.status === 'pending' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {image.status === 'pending' && (
+                    <Button
+                      onClick={() => handleProcessNext(image.id)}
+                      size="sm"
+                      variant="outline"
+                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    >
+                      <ArrowUpToLine className="w-3 h-3 mr-1" />
+                      Process Next
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => handleCancelImage(image.id)}
+                    size="sm"
+                    variant="outline"
+                    className="bg-red-500/20 border-red-500/30 text-red-300 hover:bg-red-500/30"
+                  >
+                    <X className="w-3 h-3 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              )}
+              {image.status === 'cancelled' && (
+                <Button
+                  onClick={() => handleRequeue(image.id)}
+                  size="sm"
+                  variant="outline"
+                  className="w-full bg-white/10 border-white/20 text-white hover:bg-white/20"
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Re-queue
+                </Button>
+              )}
+
+              {image.status !== 'processing' && image.status !== 'completed' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    onClick={() => setEditingId(image.id)}
+                    size="sm"
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <Crop className="w-3 h-3 mr-1" />
+                    Crop & Rotate
+                  </Button>
+                  <Button
+                    onClick={() => openSettings([image.id], false)}
+                    size="sm"
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <SlidersHorizontal className="w-3 h-3 mr-1" />
+                    Settings
+                  </Button>
+                </div>
+              )}
+
+              {hasResult(image) && (
+                <Button
+                  onClick={() => setComparingId(image.id)}
+                  size="sm"
+                  variant="outline"
+                  className="w-full bg-white/10 border-white/20 text-white hover:bg-white/20"
+                >
+                  <Columns2 className="w-3 h-3 mr-1" />
+                  Compare
+                </Button>
+              )}
+
               {/* Individual Download Button */}
-              {image.status === 'completed' && (image.processedBlob || image.processedUrl) && (
+              {hasResult(image) && (
                 <Button
-                  onClick={() => {
-                    const link = document.createElement('a');
-                    if (image.processedBlob) {
-                      // Use blob if available (preferred)
-                      link.href = URL.createObjectURL(image.processedBlob);
-                    } else if (image.processedUrl) {
-                      // Fallback to URL if blob is missing
-                      link.href = image.processedUrl;
+                  onClick={async () => {
+                    try {
+                      downloadBlob(await loadResult(image), getResultFileName(toExportItem(image, index), nameTemplate));
+                    } catch (error) {
+                      toast({
+                        title: "Download Failed",
+                        description: error instanceof Error ? error.message : 'Could not read the upscaled image.',
+                        variant: "destructive",
+                      });
                     }
-                    link.download = `upscaled-${image.file.name.split('.')[0]}-${image.scale || selectedScale}x.png`;
-                    document.body.appendChild(link);
-                    link.click();
-                    document.body.removeChild(link);
                   }}
                   size="sm"
                   className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white"
@@ -591,15 +1461,60 @@ const MultiImageProcessor = ({
               )}
 
               {/* Debug info for completed images without download */}
-              {image.status === 'completed' && !image.processedBlob && !image.processedUrl && (
+              {image.status === 'completed' && !hasResult(image) && (
                 <div className="text-xs text-red-400 text-center">
                   ⚠️ Download unavailable - missing processed data
                 </div>
               )}
             </CardContent>
           </Card>
-        ))}
-      </div>
+        )}
+      />
+
+      <Dialog open={!!comparingImage} onOpenChange={(open) => !open && setComparingId(null)}>
+        <DialogContent className="max-w-6xl bg-gray-900 border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="text-white truncate pr-6">{comparingImage?.file.name}</DialogTitle>
+          </DialogHeader>
+          {comparingUrls ? (
+            <ComparisonViewer original={comparingUrls.original} processed={comparingUrls.processed} />
+          ) : (
+            <p className="text-white/50 text-sm text-center py-12">Loading images...</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ImageEditor
+        file={editingImage?.file || null}
+        value={editingImage?.edit}
+        onApply={(edit) => {
+          if (editingId) updateImage(editingId, { edit: isEdited(edit) ? edit : undefined });
+          setEditingId(null);
+        }}
+        onClose={() => setEditingId(null)}
+      />
+
+      {settingsDialog && (
+        <ItemSettingsDialog
+          open
+          title={settingsDialog.isSelection
+            ? `Settings for ${settingsDialog.ids.length} Images`
+            : processedImages.find(image => image.id === settingsDialog.ids[0])?.file.name || 'Image Settings'}
+          value={settingsDialog.value}
+          provider={selectedProvider}
+          batchTemplate={nameTemplate}
+          sampleFileName={processedImages.find(image => image.id === settingsDialog.ids[0])?.file.name || 'photo.jpg'}
+          selectedCount={selectedEditableIds.length}
+          editableCount={editableIds.length}
+          isSelection={settingsDialog.isSelection}
+          onApply={handleApplySettings}
+          onReset={() => {
+            setItemSettings(settingsDialog.ids, undefined);
+            setSettingsDialog(null);
+          }}
+          onClose={() => setSettingsDialog(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { OUTPUT_FORMATS, OutputEncoding } from '@/services/upscalePipeline';
+import type { OutputFormat } from '@/services/upscaleProvider';
+import { canEncode } from '@/lib/image';
+import { formatFileSize } from '@/lib/utils';
+
+interface OutputFormatSettingsProps {
+  value: OutputEncoding;
+  onChange: (encoding: OutputEncoding) => void;
+  disabled?: boolean;
+  estimatedSize?: number | null; // Bytes; null while unknown
+  estimateLabel?: string;
+}
+
+const OutputFormatSettings = ({
+  value,
+  onChange,
+  disabled,
+  estimatedSize,
+  estimateLabel = 'Estimated file size'
+}: OutputFormatSettingsProps) => {
+  const [unsupported, setUnsupported] = useState<OutputFormat[]>([]);
+  const formatInfo = OUTPUT_FORMATS.find(format => format.id === value.format) || OUTPUT_FORMATS[0];
+  const showQuality = formatInfo.lossy && !(formatInfo.supportsLossless && value.lossless);
+
+  // Every format goes through the browser's encoder at some point, so hide what it can't write
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(OUTPUT_FORMATS.map(format => canEncode(format.id))).then(results => {
+      if (!cancelled) {
+        setUnsupported(OUTPUT_FORMATS.filter((_, index) => !results[index]).map(format => format.id));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (unsupported.includes(value.format)) {
+      onChange({ ...value, format: 'png' });
+    }
+  }, [unsupported, value, onChange]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-white/90 text-sm font-medium mb-2 block">
+          Output Format
+        </label>
+        <Select
+          value={value.format}
+          onValueChange={(format) => onChange({ ...value, format: format as OutputFormat })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="bg-white/10 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-900 border-gray-700">
+            {OUTPUT_FORMATS.map((format) => (
+              <SelectItem
+                key={format.id}
+                value={format.id}
+                disabled={unsupported.includes(format.id)}
+                className="text-white hover:bg-gray-800"
+              >
+                <div className="flex flex-col">
+                  <span className="font-medium">{format.label}</span>
+                  <span className="text-xs text-gray-400">
+                    {unsupported.includes(format.id) ? 'Not supported by this browser' : format.description}
+                  </span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formatInfo.supportsLossless && (
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={value.lossless}
+            onCheckedChange={(lossless) => onChange({ ...value, lossless })}
+            disabled={disabled}
+          />
+          <span className="text-sm text-white/90">Lossless</span>
+          <span className="text-xs text-white/60">Exact pixels, larger files</span>
+        </div>
+      )}
+
+      {showQuality && (
+        <div>
+          <label className="text-white/90 text-sm font-medium mb-2 flex justify-between">
+            <span>Quality</span>
+            <span className="text-white/60">{Math.round(value.quality * 100)}%</span>
+          </label>
+          <Slider
+            value={[Math.round(value.quality * 100)]}
+            onValueChange={([quality]) => onChange({ ...value, quality: quality / 100 })}
+            min={40}
+            max={100}
+            step={1}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {estimatedSize !== undefined && (
+        <p className="text-xs text-white/60">
+          {estimateLabel}: {estimatedSize === null ? 'calculating...' : `~${formatFileSize(estimatedSize)}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutputFormatSettings;
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { QualityMetrics } from '@/lib/qualityMetrics';
+
+interface QualityReportProps {
+  metrics: QualityMetrics;
+}
+
+const QualityReport = ({ metrics }: QualityReportProps) => {
+  const items = [
+    { label: 'Sharpness', value: metrics.sharpness.toFixed(0), hint: 'Laplacian variance, higher is crisper' },
+    { label: 'Noise', value: `σ ${metrics.noise.toFixed(2)}`, hint: 'Estimated noise, lower is cleaner' },
+    { label: 'PSNR', value: `${metrics.psnr.toFixed(1)} dB`, hint: 'Round trip to source size' },
+    { label: 'SSIM', value: metrics.ssim.toFixed(3), hint: 'Round trip, 1 is identical' },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {items.map((item) => (
+        <div key={item.label} className="bg-white/5 border border-white/10 rounded-lg p-2" title={item.hint}>
+          <div className="text-xs text-white/60">{item.label}</div>
+          <div className="text-sm text-white font-semibold">{item.value}</div>
+          <div className="text-[11px] text-white/40">{item.hint}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QualityReport;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useThumbnail } from '@/hooks/use-thumbnail';
+
+interface ThumbnailProps {
+  thumbnailKey: string; // Identifies the image in the thumbnail cache
+  load: () => Promise<Blob>;
+  alt: string;
+  className?: string;
+}
+
+// A small preview made off the main thread; a placeholder of the same size
+// is shown until it is ready
+const Thumbnail = ({ thumbnailKey, load, alt, className = '' }: ThumbnailProps) => {
+  const url = useThumbnail(thumbnailKey, load);
+
+  if (!url) {
+    return <div className={`${className} bg-white/5 animate-pulse`} aria-label={alt} />;
+  }
+  return <img src={url} alt={alt} className={className} draggable={false} />;
+};
+
+export default Thumbnail;
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  minColumnWidth: number; // Columns are added while each can be at least this wide
+  maxColumns: number;
+  gap: number; // Pixels between cells and between rows
+  estimatedRowHeight: number; // Used for rows that haven't been shown yet
+  overscan?: number; // Pixels rendered beyond each edge of the viewport
+}
+
+interface MeasuredRowProps {
+  row: number;
+  top: number;
+  columns: number;
+  gap: number;
+  onResize: (row: number, height: number) => void;
+  children: React.ReactNode;
+}
+
+const MeasuredRow = ({ row, top, columns, gap, onResize, children }: MeasuredRowProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => onResize(row, entry.borderBoxSize?.[0]?.blockSize ?? element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [row, onResize]);
+
+  return (
+    <div
+      ref={ref}
+      className="absolute left-0 right-0 grid"
+      style={{ top, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+    >
+      {children}
+    </div>
+  );
+};
+
+// A grid that scrolls with the page but only renders the rows near the
+// viewport, so a batch of hundreds of images keeps a few dozen cards (and
+// their thumbnails) in the DOM. Rows may differ in height: each is measured
+// while shown and the estimate stands in for the rest.
+function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  minColumnWidth,
+  maxColumns,
+  gap,
+  estimatedRowHeight,
+  overscan = 600
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 }); // In container coordinates
+  const heightsRef = useRef(new Map<number, number>());
+  const [, setMeasured] = useState(0);
+  const scheduleRef = useRef<() => void>(() => {});
+
+  const columns = Math.max(1, Math.min(maxColumns, Math.floor((width + gap) / (minColumnWidth + gap))));
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Rows hold different items once the column count changes
+  const columnsRef = useRef(columns);
+  if (columnsRef.current !== columns) {
+    columnsRef.current = columns;
+    heightsRef.current.clear();
+  }
+
+  useLayoutEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const element = containerRef.current;
+      if (!element) return;
+      const rect = element.getBoundingClientRect();
+      const top = -rect.top;
+      const bottom = window.innerHeight - rect.top;
+      setViewport(current => (current.top === top && current.bottom === bottom ? current : { top, bottom }));
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    scheduleRef.current = schedule;
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  // Content above the grid can grow or shrink without a scroll event
+  useEffect(() => {
+    scheduleRef.current();
+  });
+
+  const handleResize = useCallback((row: number, height: number) => {
+    if (heightsRef.current.get(row) === height) return;
+    heightsRef.current.set(row, height);
+    setMeasured(count => count + 1);
+  }, []);
+
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  for (let row = 0; row < rowCount; row++) {
+    offsets.push(totalHeight);
+    totalHeight += (heightsRef.current.get(row) ?? estimatedRowHeight) + gap;
+  }
+  totalHeight = Math.max(0, totalHeight - gap);
+
+  const visibleRows: number[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    const top = offsets[row];
+    const bottom = top + (heightsRef.current.get(row) ?? estimatedRowHeight);
+    if (bottom >= viewport.top - overscan && top <= viewport.bottom + overscan) {
+      visibleRows.push(row);
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      {visibleRows.map(row => (
+        <MeasuredRow key={row} row={row} top={offsets[row]} columns={columns} gap={gap} onResize={handleResize}>
+          {items.slice(row * columns, (row + 1) * columns).map((item, column) => (
+            <React.Fragment key={getKey(item)}>
+              {renderItem(item, row * columns + column)}
+            </React.Fragment>
+          ))}
+        </MeasuredRow>
+      ))}
+    </div>
+  );
+}
+
+export default VirtualGrid;
@@ -0,0 +1,68 @@
+import * as React from "react"
+
+import { getImageDimensions, ImageDimensions } from "@/lib/image"
+import { editedDimensions, ImageEdit } from "@/lib/imageEdit"
+import { StabilityAIService } from "@/services/stabilityAI"
+import { computeOutputDimensions, OutputSize } from "@/services/upscalePipeline"
+import type { UpscaleMode, UpscaleProvider } from "@/services/upscaleProvider"
+
+const ESTIMATE_DELAY_MS = 300
+
+export interface CreditEstimateItem {
+  file: File
+  size: OutputSize
+  mode?: UpscaleMode
+  edit?: ImageEdit
+}
+
+// Decoding is the slow part, and a file's size never changes
+const dimensionCache = new WeakMap<File, Promise<ImageDimensions>>()
+
+function getDimensions(file: File): Promise<ImageDimensions> {
+  let dimensions = dimensionCache.get(file)
+  if (!dimensions) {
+    dimensions = getImageDimensions(file)
+    dimensionCache.set(file, dimensions)
+    dimensions.catch(() => dimensionCache.delete(file))
+  }
+  return dimensions
+}
+
+// Total estimated credits for upscaling every item with its own size, mode
+// and crop: null until first worked out. Re-runs (debounced) whenever the
+// items or provider change, so pass a memoized array. The last total is kept
+// meanwhile so it doesn't flicker while a batch is running.
+export function useCreditEstimate(items: CreditEstimateItem[], provider: UpscaleProvider) {
+  const [estimate, setEstimate] = React.useState<number | null>(null)
+
+  React.useEffect(() => {
+    if (items.length === 0) {
+      setEstimate(0)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      let total = 0
+      for (const item of items) {
+        try {
+          const source = editedDimensions(await getDimensions(item.file), item.edit)
+          const { scale } = computeOutputDimensions(source, item.size)
+          total += await StabilityAIService.estimateCreditCost(item.file, scale, provider.getInputLimits?.(item.mode, scale), source)
+        } catch (error) {
+          console.warn("⚠️ Could not estimate credits:", error)
+          total += 1 // Same default as for an unreadable single image
+        }
+        if (cancelled) return
+      }
+      setEstimate(total)
+    }, ESTIMATE_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [items, provider])
+
+  return estimate
+}
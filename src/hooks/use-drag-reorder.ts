@@ -0,0 +1,43 @@
+import * as React from "react"
+
+// Native drag and drop for reordering a list of items by id. Spread
+// `getItemProps(id)` onto each item; `onMove` gets the dragged id and the id
+// it was dropped on. Only drags that started on an item are handled, so file
+// drops onto the list still reach the uploader.
+export function useDragReorder(onMove: (fromId: string, toId: string) => void) {
+  const [draggingId, setDraggingId] = React.useState<string | null>(null)
+  const [overId, setOverId] = React.useState<string | null>(null)
+
+  const reset = React.useCallback(() => {
+    setDraggingId(null)
+    setOverId(null)
+  }, [])
+
+  const getItemProps = (id: string, enabled = true) => {
+    if (!enabled) return {}
+    return {
+      draggable: true,
+      onDragStart: (event: React.DragEvent) => {
+        event.dataTransfer.effectAllowed = "move"
+        event.dataTransfer.setData("text/plain", id)
+        setDraggingId(id)
+      },
+      onDragOver: (event: React.DragEvent) => {
+        if (!draggingId) return
+        event.preventDefault()
+        event.dataTransfer.dropEffect = "move"
+        if (overId !== id) setOverId(id)
+      },
+      onDrop: (event: React.DragEvent) => {
+        if (!draggingId) return
+        event.preventDefault()
+        event.stopPropagation()
+        if (draggingId !== id) onMove(draggingId, id)
+        reset()
+      },
+      onDragEnd: reset,
+    }
+  }
+
+  return { draggingId, overId, getItemProps }
+}
@@ -0,0 +1,18 @@
+import * as React from "react"
+
+import { loadPreferences, savePreferences, subscribeToPreferences, Preferences } from "@/lib/preferences"
+
+// Reads one preference and keeps every component using it in sync
+export function usePreference<K extends keyof Preferences>(key: K) {
+  const [value, setValue] = React.useState<Preferences[K]>(() => loadPreferences()[key])
+
+  React.useEffect(() => {
+    return subscribeToPreferences((preferences) => setValue(preferences[key]))
+  }, [key])
+
+  const update = React.useCallback((next: Preferences[K]) => {
+    savePreferences({ [key]: next } as Partial<Preferences>)
+  }, [key])
+
+  return [value, update] as const
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+import { estimateEncodedSize, getImageDimensions } from "@/lib/image"
+import { computeOutputDimensions, OutputEncoding, OutputSize, toFormatOptions } from "@/services/upscalePipeline"
+
+// Only a few files are sampled; the rest are assumed to be similar
+const MAX_SAMPLES = 3
+const ESTIMATE_DELAY_MS = 300
+
+// Estimated total output size in bytes for `files`: null while it is being
+// worked out, undefined if it can't be. Re-runs (debounced) whenever the
+// size or encoding changes.
+export function useSizeEstimate(files: Blob[], size: OutputSize, encoding: OutputEncoding) {
+  const [estimate, setEstimate] = React.useState<number | null | undefined>(null)
+
+  React.useEffect(() => {
+    if (files.length === 0) {
+      setEstimate(0)
+      return
+    }
+
+    let cancelled = false
+    setEstimate(null)
+    const timer = setTimeout(async () => {
+      try {
+        const { format = "png", quality, lossless } = toFormatOptions(encoding)
+        const samples = files.slice(0, MAX_SAMPLES)
+        let total = 0
+        for (const file of samples) {
+          const output = computeOutputDimensions(await getImageDimensions(file), size)
+          total += await estimateEncodedSize(file, output, format, quality, lossless)
+          if (cancelled) return
+        }
+        setEstimate(Math.round((total / samples.length) * files.length))
+      } catch (error) {
+        console.warn("⚠️ Could not estimate output size:", error)
+        if (!cancelled) setEstimate(undefined)
+      }
+    }, ESTIMATE_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [files, size, encoding])
+
+  return estimate
+}
@@ -0,0 +1,38 @@
+import * as React from "react"
+
+import { thumbnails } from "@/services/thumbnails"
+
+// Object URL of a small preview of an image, created when the component
+// mounts and revoked when it unmounts. In a virtualized list that means only
+// rows on screen hold URLs. `load` is read when the thumbnail is made, so it
+// can change without starting over; a new `key` does start over.
+export function useThumbnail(key: string | null, load: () => Promise<Blob>) {
+  const [url, setUrl] = React.useState<string | null>(null)
+  const loadRef = React.useRef(load)
+  loadRef.current = load
+
+  React.useEffect(() => {
+    setUrl(null)
+    if (!key) return
+
+    const controller = new AbortController()
+    let objectUrl: string | null = null
+    thumbnails.get(key, () => loadRef.current(), controller.signal).then(
+      (blob) => {
+        if (controller.signal.aborted) return
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      },
+      (error) => {
+        if (!controller.signal.aborted) console.warn("⚠️ Could not make thumbnail:", error)
+      }
+    )
+
+    return () => {
+      controller.abort()
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [key])
+
+  return url
+}
@@ -0,0 +1,10 @@
+// SHA-256 of a file's bytes as lowercase hex. Identical uploads hash the same
+// whatever they are called, which is what deduplication and caching key on.
+// Throws outside secure contexts, where browsers leave crypto.subtle undefined.
+export async function hashBlob(blob: Blob): Promise<string> {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('SHA-256 hashing needs a secure context (HTTPS or localhost).');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,31 @@
+// CRC-32 as used by ZIP and PNG
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const CRC_INITIAL = 0xffffffff;
+
+// Feed data in pieces with updateCrc, then finish with finalizeCrc
+export function updateCrc(crc: number, bytes: Uint8Array): number {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return c;
+}
+
+export function finalizeCrc(crc: number): number {
+  return (crc ^ CRC_INITIAL) >>> 0;
+}
+
+export function crc32(bytes: Uint8Array): number {
+  return finalizeCrc(updateCrc(CRC_INITIAL, bytes));
+}
@@ -0,0 +1,64 @@
+// Minimal promise wrapper around the app's IndexedDB database. Each store is
+// created on upgrade, so adding one only means bumping DB_VERSION.
+
+const DB_NAME = 'pixelboost';
+const DB_VERSION = 3;
+
+export const STORES = {
+  batchItems: 'batchItems',
+  batchMeta: 'batchMeta',
+  batchResults: 'batchResults',
+  resultCache: 'resultCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDBAvailable()) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      databasePromise = null; // Allow a later retry, e.g. after private mode is left
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+// Runs `callback` in a transaction and resolves with its result once the
+// transaction commits, so callers never observe a half-written state
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = callback(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
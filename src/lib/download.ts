@@ -0,0 +1,59 @@
+// Browser download helpers. Streams go straight to disk where the File System
+// Access API exists; elsewhere they are collected into a Blob first.
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+interface WritableFileHandle {
+  createWritable(): Promise<WritableStream<Uint8Array>>;
+}
+
+type SaveFilePicker = (options: SaveFilePickerOptions) => Promise<WritableFileHandle>;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+// Resolves false when the user dismisses the save dialog
+export async function saveStream(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  mimeType: string,
+  extension: string
+): Promise<boolean> {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    let handle: WritableFileHandle | null = null;
+    try {
+      handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: fileName, accept: { [mimeType]: [extension] } }],
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        await stream.cancel();
+        return false;
+      }
+      // E.g. blocked outside a user gesture; fall back to a regular download
+      console.warn('⚠️ Save dialog unavailable, downloading instead:', error);
+    }
+    if (handle) {
+      await stream.pipeTo(await handle.createWritable());
+      return true;
+    }
+  }
+
+  const blob = await new Response(stream).blob();
+  downloadBlob(new Blob([blob], { type: mimeType }), fileName);
+  return true;
+}
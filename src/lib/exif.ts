@@ -0,0 +1,191 @@
+// Edits a raw EXIF block (the TIFF structure after "Exif\0\0") in place.
+// Only fixed-size values are touched, so no offsets need rewriting; anything
+// malformed makes the edit return null and the caller drops the block.
+
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_HEIGHT = 0x0101;
+const TAG_ORIENTATION = 0x0112;
+const TAG_X_RESOLUTION = 0x011a;
+const TAG_Y_RESOLUTION = 0x011b;
+const TAG_RESOLUTION_UNIT = 0x0128;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+export interface ExifChanges {
+  width: number;
+  height: number;
+  resetOrientation?: boolean;
+  removeGps?: boolean;
+  dpi?: number; // Replaces the resolution tags when they exist
+}
+
+class TiffView {
+  private view: DataView;
+  private littleEndian: boolean;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const order = String.fromCharCode(bytes[0], bytes[1]);
+    if (order !== 'II' && order !== 'MM') throw new Error('Not a TIFF header');
+    this.littleEndian = order === 'II';
+    if (this.u16(2) !== 42) throw new Error('Not a TIFF header');
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  setU16(offset: number, value: number): void {
+    this.view.setUint16(offset, value, this.littleEndian);
+  }
+
+  setU32(offset: number, value: number): void {
+    this.view.setUint32(offset, value, this.littleEndian);
+  }
+
+  // Offsets of each 12-byte entry in the IFD at `offset`
+  entries(offset: number): number[] {
+    const count = this.u16(offset);
+    if (offset + 2 + count * 12 + 4 > this.bytes.length) throw new Error('IFD out of range');
+    return Array.from({ length: count }, (_, index) => offset + 2 + index * 12);
+  }
+
+  find(ifd: number, tag: number): number | undefined {
+    return this.entries(ifd).find(entry => this.u16(entry) === tag);
+  }
+
+  // Rewrites a single SHORT/LONG value, widening SHORT to LONG when needed
+  setInteger(entry: number, value: number): void {
+    const type = this.u16(entry + 2);
+    if ((type !== TYPE_SHORT && type !== TYPE_LONG) || this.u32(entry + 4) !== 1) return;
+    if (type === TYPE_SHORT && value <= 0xffff) {
+      this.setU16(entry + 8, value);
+      this.setU16(entry + 10, 0);
+    } else {
+      this.setU16(entry + 2, TYPE_LONG);
+      this.setU32(entry + 8, value);
+    }
+  }
+
+  setRational(entry: number, numerator: number, denominator: number): void {
+    if (this.u16(entry + 2) !== TYPE_RATIONAL || this.u32(entry + 4) !== 1) return;
+    const valueOffset = this.u32(entry + 8);
+    if (valueOffset + 8 > this.bytes.length) return;
+    this.setU32(valueOffset, numerator);
+    this.setU32(valueOffset + 4, denominator);
+  }
+
+  // Zeroes an IFD and the out-of-line values its entries point at
+  erase(ifd: number): void {
+    const entries = this.entries(ifd);
+    for (const entry of entries) {
+      const size = (TYPE_SIZES[this.u16(entry + 2)] || 1) * this.u32(entry + 4);
+      if (size > 4) {
+        const valueOffset = this.u32(entry + 8);
+        if (valueOffset + size <= this.bytes.length) {
+          this.bytes.fill(0, valueOffset, valueOffset + size);
+        }
+      }
+    }
+    this.bytes.fill(0, ifd, ifd + 2 + entries.length * 12 + 4);
+  }
+
+  // Drops one entry by shifting the rest (and the next-IFD pointer) up
+  removeEntry(ifd: number, entry: number): void {
+    const count = this.u16(ifd);
+    const end = ifd + 2 + count * 12 + 4;
+    this.bytes.copyWithin(entry, entry + 12, end);
+    this.bytes.fill(0, end - 12, end);
+    this.setU16(ifd, count - 1);
+  }
+}
+
+export function editExif(exif: Uint8Array, changes: ExifChanges): Uint8Array | null {
+  try {
+    const tiff = new TiffView(exif.slice());
+    const ifd0 = tiff.u32(4);
+
+    const width = tiff.find(ifd0, TAG_IMAGE_WIDTH);
+    const height = tiff.find(ifd0, TAG_IMAGE_HEIGHT);
+    if (width !== undefined) tiff.setInteger(width, changes.width);
+    if (height !== undefined) tiff.setInteger(height, changes.height);
+
+    const orientation = tiff.find(ifd0, TAG_ORIENTATION);
+    if (changes.resetOrientation && orientation !== undefined) {
+      tiff.setInteger(orientation, 1);
+    }
+
+    if (changes.dpi) {
+      const xResolution = tiff.find(ifd0, TAG_X_RESOLUTION);
+      const yResolution = tiff.find(ifd0, TAG_Y_RESOLUTION);
+      const unit = tiff.find(ifd0, TAG_RESOLUTION_UNIT);
+      if (xResolution !== undefined) tiff.setRational(xResolution, Math.round(changes.dpi), 1);
+      if (yResolution !== undefined) tiff.setRational(yResolution, Math.round(changes.dpi), 1);
+      if (unit !== undefined) tiff.setInteger(unit, 2); // Inches
+    }
+
+    const exifPointer = tiff.find(ifd0, TAG_EXIF_IFD);
+    if (exifPointer !== undefined) {
+      const exifIfd = tiff.u32(exifPointer + 8);
+      const pixelX = tiff.find(exifIfd, TAG_PIXEL_X_DIMENSION);
+      const pixelY = tiff.find(exifIfd, TAG_PIXEL_Y_DIMENSION);
+      if (pixelX !== undefined) tiff.setInteger(pixelX, changes.width);
+      if (pixelY !== undefined) tiff.setInteger(pixelY, changes.height);
+    }
+
+    const gpsPointer = tiff.find(ifd0, TAG_GPS_IFD);
+    if (changes.removeGps && gpsPointer !== undefined) {
+      // Unlinking alone would leave the coordinates readable in the file
+      tiff.erase(tiff.u32(gpsPointer + 8));
+      tiff.removeEntry(ifd0, gpsPointer);
+    }
+
+    return tiff.bytes;
+  } catch (error) {
+    console.warn('⚠️ Could not update EXIF data, dropping it:', error);
+    return null;
+  }
+}
+
+// XMP repeats some EXIF fields; they're updated as attributes or elements
+function setXmpProperty(xmp: string, name: string, value: string): string {
+  return xmp
+    .replace(new RegExp(`(${name}=")[^"]*(")`, 'g'), `$1${value}$2`)
+    .replace(new RegExp(`(<${name}>)[^<]*(</${name}>)`, 'g'), `$1${value}$2`);
+}
+
+export function editXmp(xmp: string, changes: ExifChanges): string {
+  let result = xmp;
+  result = setXmpProperty(result, 'tiff:ImageWidth', String(changes.width));
+  result = setXmpProperty(result, 'tiff:ImageLength', String(changes.height));
+  result = setXmpProperty(result, 'exif:PixelXDimension', String(changes.width));
+  result = setXmpProperty(result, 'exif:PixelYDimension', String(changes.height));
+  if (changes.resetOrientation) {
+    result = setXmpProperty(result, 'tiff:Orientation', '1');
+  }
+  if (changes.dpi) {
+    result = setXmpProperty(result, 'tiff:XResolution', `${Math.round(changes.dpi)}/1`);
+    result = setXmpProperty(result, 'tiff:YResolution', `${Math.round(changes.dpi)}/1`);
+    result = setXmpProperty(result, 'tiff:ResolutionUnit', '2');
+  }
+  if (changes.removeGps) {
+    result = result
+      .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+      .replace(/<exif:GPS(\w+)[^>]*\/>/g, '')
+      .replace(/<exif:GPS(\w+)[^>]*>[\s\S]*?<\/exif:GPS\1>/g, '');
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+// Helpers for getting image files out of drops and pastes
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+// Hidden files (.DS_Store, ._ resource forks) come along with dropped folders
+function isHidden(name: string): boolean {
+  return name.startsWith('.');
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// A reader returns entries in batches (100 at a time in Chromium) until empty
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, files: File[]): Promise<void> {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    files.push(await readFile(entry as FileSystemFileEntry));
+  } else if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    // Sorted so a folder of numbered frames keeps its order
+    children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    for (const child of children) {
+      await collectEntry(child, files);
+    }
+  }
+}
+
+// Every dropped file, with folders walked recursively. Entries must be taken
+// from the DataTransfer before the drop handler yields, so this is called
+// synchronously and only then awaits.
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only see the top-level files
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files));
+  }
+
+  return (async () => {
+    const files: File[] = [];
+    for (const entry of entries) {
+      await collectEntry(entry, files);
+    }
+    return files;
+  })();
+}
+
+// Pasted screenshots all arrive as "image.png", so they get a unique name
+export function getClipboardImages(clipboard: DataTransfer | null): File[] {
+  if (!clipboard) return [];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return Array.from(clipboard.files)
+    .filter(isImageFile)
+    .map((file, index) => {
+      if (file.name && file.name !== 'image.png') return file;
+      const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+      return new File([file], `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${extension}`, { type: file.type });
+    });
+}
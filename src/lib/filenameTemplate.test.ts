@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilenameTemplate, DEFAULT_FILENAME_TEMPLATE, stripExtension } from './filenameTemplate';
+import type { FilenameValues } from './filenameTemplate';
+
+const values: FilenameValues = {
+  name: 'holiday',
+  scale: 2,
+  index: 3,
+  ext: 'png',
+  width: 3840,
+  height: 2160,
+  mode: 'local',
+  date: new Date(2024, 0, 5),
+};
+
+describe('applyFilenameTemplate', () => {
+  it('fills the default template', () => {
+    expect(applyFilenameTemplate(DEFAULT_FILENAME_TEMPLATE, values)).toBe('upscaled-holiday-2x.png');
+  });
+
+  it('fills every known token', () => {
+    expect(applyFilenameTemplate('{index}_{name}_{scale}_{width}x{height}_{mode}_{date}', values))
+      .toBe('3_holiday_2x_3840x2160_local_2024-01-05.png');
+  });
+
+  it('formats fractional scales with two decimals', () => {
+    expect(applyFilenameTemplate('{name}@{scale}', { ...values, scale: 1.5 })).toBe('holiday@1.50x.png');
+  });
+
+  it('leaves unknown tokens as typed and empties known ones with no value', () => {
+    expect(applyFilenameTemplate('{name}-{size}-{width}', { ...values, width: undefined }))
+      .toBe('holiday-{size}-.png');
+  });
+
+  it('replaces characters that are invalid in file names', () => {
+    expect(applyFilenameTemplate('a/b\\c:d*e?f"g<h>i|j', values)).toBe('a_b_c_d_e_f_g_h_i_j.png');
+  });
+
+  it('removes control characters', () => {
+    expect(applyFilenameTemplate('{name}\u0007\n-x', values)).toBe('holiday-x.png');
+  });
+
+  it('falls back to the default template or the name when nothing is left', () => {
+    expect(applyFilenameTemplate('   ', values)).toBe('upscaled-holiday-2x.png');
+    expect(applyFilenameTemplate('{mode}', { ...values, mode: undefined })).toBe('holiday.png');
+  });
+
+  it('always ends with the real extension', () => {
+    expect(applyFilenameTemplate('{name}.{ext}', values)).toBe('holiday.png');
+    expect(applyFilenameTemplate('{name}.PNG', values)).toBe('holiday.PNG');
+    expect(applyFilenameTemplate('{name}.jpg', values)).toBe('holiday.jpg.png');
+  });
+});
+
+describe('stripExtension', () => {
+  it('removes only the last extension', () => {
+    expect(stripExtension('photo.final.jpeg')).toBe('photo.final');
+  });
+
+  it('keeps dotfiles and names without an extension', () => {
+    expect(stripExtension('.hidden')).toBe('.hidden');
+    expect(stripExtension('README')).toBe('README');
+  });
+});
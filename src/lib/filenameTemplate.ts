@@ -0,0 +1,54 @@
+import { formatScale } from './image';
+
+// Tokens are written as {name}; unknown tokens are left as typed so mistakes
+// are visible in the preview rather than silently dropped. Known tokens with
+// no value (e.g. {width} before the size is known) become empty.
+export const DEFAULT_FILENAME_TEMPLATE = 'upscaled-{name}-{scale}';
+
+export interface FilenameValues {
+  name: string; // Original file name without extension
+  scale: number;
+  index: number; // 1-based position in the batch
+  ext: string; // Output extension without the dot
+  width?: number;
+  height?: number;
+  mode?: string; // Upscaling mode or provider that produced the file
+  date?: Date; // Defaults to now
+}
+
+export const FILENAME_TOKENS = ['name', 'scale', 'width', 'height', 'mode', 'date', 'index', 'ext'];
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Characters that are invalid in file names on at least one common OS
+const INVALID_CHARACTERS = /[\\/:*?"<>|]/g;
+
+export function stripExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+export function applyFilenameTemplate(template: string, values: FilenameValues): string {
+  const tokens: Record<string, string | undefined> = {
+    name: values.name,
+    scale: formatScale(values.scale),
+    index: String(values.index),
+    ext: values.ext,
+    width: values.width !== undefined ? String(values.width) : undefined,
+    height: values.height !== undefined ? String(values.height) : undefined,
+    mode: values.mode,
+    date: formatDate(values.date || new Date()),
+  };
+
+  const base = (template.trim() || DEFAULT_FILENAME_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (match, token: string) => FILENAME_TOKENS.includes(token) ? tokens[token] ?? '' : match)
+    .replace(INVALID_CHARACTERS, '_')
+    .split('').filter(character => character.charCodeAt(0) >= 32).join('') // Control characters
+    .trim() || values.name;
+
+  // The extension always matches the real format, whatever the template says
+  return base.toLowerCase().endsWith(`.${values.ext}`) ? base : `${base}.${values.ext}`;
+}
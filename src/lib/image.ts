@@ -0,0 +1,211 @@
+// Largest canvas edge most browsers will allocate without failing silently
+export const MAX_CANVAS_DIMENSION = 16384;
+
+export type ImageEncoding = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Pixels are decoded without colour conversion so they still match the
+// source's embedded profile, which is copied to the output afterwards
+export function decodeImage(image: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(image, { colorSpaceConversion: 'none' });
+}
+
+export async function getImageDimensions(image: Blob): Promise<ImageDimensions> {
+  const bitmap = await createImageBitmap(image);
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return dimensions;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, format: ImageEncoding = 'png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode image.'));
+      }
+    }, `image/${format}`, quality);
+  });
+}
+
+export function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available in this browser.');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return [canvas, ctx];
+}
+
+// Resizes an image to exact pixel dimensions. Large reductions are done in
+// halving steps because a single bilinear pass skips source pixels and aliases.
+export async function resampleImage(
+  image: Blob,
+  width: number,
+  height: number,
+  format: ImageEncoding = 'png',
+  quality?: number,
+  lossless?: boolean
+): Promise<Blob> {
+  if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION) {
+    throw new Error(`Output would be ${width}×${height}px, which exceeds the browser canvas limit.`);
+  }
+
+  const bitmap = await decodeImage(image);
+  try {
+    const [canvas, ctx] = createCanvasFor(format, width, height);
+    ctx.drawImage(halveTowards(bitmap, width, height), 0, 0, width, height);
+    return await canvasToBlob(canvas, format, encodingQuality(format, quality, lossless));
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Halves the bitmap until one more halving would drop below the target size
+function halveTowards(bitmap: ImageBitmap, width: number, height: number): CanvasImageSource {
+  let source: CanvasImageSource = bitmap;
+  let sourceWidth = bitmap.width;
+  let sourceHeight = bitmap.height;
+  while (sourceWidth / 2 >= width && sourceHeight / 2 >= height) {
+    const stepWidth = Math.round(sourceWidth / 2);
+    const stepHeight = Math.round(sourceHeight / 2);
+    const [stepCanvas, stepCtx] = createCanvas(stepWidth, stepHeight);
+    stepCtx.drawImage(source, 0, 0, stepWidth, stepHeight);
+    source = stepCanvas;
+    sourceWidth = stepWidth;
+    sourceHeight = stepHeight;
+  }
+  return source;
+}
+
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Raw RGBA pixels of an image resized to width × height, or of `region`
+// copied 1:1 when given
+export async function readPixels(image: Blob, width: number, height: number, region?: PixelRegion): Promise<ImageData> {
+  const bitmap = await decodeImage(image);
+  try {
+    const [canvas, ctx] = createCanvas(width, height);
+    if (region) {
+      ctx.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    } else {
+      ctx.drawImage(halveTowards(bitmap, width, height), 0, 0, width, height);
+    }
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Browsers fall back to PNG for types they can't encode, so probe once per type
+const encodingSupport = new Map<ImageEncoding, Promise<boolean>>();
+
+export function canEncode(format: ImageEncoding): Promise<boolean> {
+  if (!encodingSupport.has(format)) {
+    const [canvas] = createCanvas(1, 1);
+    encodingSupport.set(format, canvasToBlob(canvas, format).then(
+      blob => blob.type === `image/${format}`,
+      () => false
+    ));
+  }
+  return encodingSupport.get(format)!;
+}
+
+// Canvas has no lossless flag; Chromium switches WebP to lossless at quality 1
+export function encodingQuality(format: ImageEncoding, quality?: number, lossless?: boolean): number | undefined {
+  if (format === 'png') return undefined;
+  return lossless && format !== 'jpeg' ? 1 : quality;
+}
+
+// JPEG has no alpha; transparent areas would otherwise turn black
+function createCanvasFor(format: ImageEncoding, width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const [canvas, ctx] = createCanvas(width, height);
+  if (format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  return [canvas, ctx];
+}
+
+// Re-encodes an image without resizing it
+export async function encodeImage(
+  image: Blob,
+  format: ImageEncoding,
+  quality?: number,
+  lossless?: boolean
+): Promise<Blob> {
+  const bitmap = await decodeImage(image);
+  try {
+    const [canvas, ctx] = createCanvasFor(format, bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const blob = await canvasToBlob(canvas, format, encodingQuality(format, quality, lossless));
+    if (blob.type !== `image/${format}`) {
+      throw new Error(`This browser can't save ${format.toUpperCase()} images.`);
+    }
+    return blob;
+  } finally {
+    bitmap.close();
+  }
+}
+
+const ESTIMATE_SAMPLE_SIZE = 512;
+
+// Rough output size: a centre crop of the source is enlarged to the output
+// scale, encoded, and its bytes per pixel applied to the whole output. Real
+// upscalers add detail, so treat the result as a ballpark figure.
+export async function estimateEncodedSize(
+  image: Blob,
+  output: ImageDimensions,
+  format: ImageEncoding,
+  quality?: number,
+  lossless?: boolean
+): Promise<number> {
+  const bitmap = await decodeImage(image);
+  try {
+    const sampleWidth = Math.min(ESTIMATE_SAMPLE_SIZE, output.width);
+    const sampleHeight = Math.min(ESTIMATE_SAMPLE_SIZE, output.height);
+    const cropWidth = Math.max(1, sampleWidth * bitmap.width / output.width);
+    const cropHeight = Math.max(1, sampleHeight * bitmap.height / output.height);
+
+    const [canvas, ctx] = createCanvasFor(format, sampleWidth, sampleHeight);
+    ctx.drawImage(
+      bitmap,
+      (bitmap.width - cropWidth) / 2, (bitmap.height - cropHeight) / 2, cropWidth, cropHeight,
+      0, 0, sampleWidth, sampleHeight
+    );
+    const sample = await canvasToBlob(canvas, format, encodingQuality(format, quality, lossless));
+    return Math.round(sample.size / (sampleWidth * sampleHeight) * output.width * output.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function formatScale(scale: number): string {
+  return `${Number.isInteger(scale) ? scale : scale.toFixed(2)}x`;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+// File extension for an image MIME type, without the dot
+export function extensionForType(mimeType: string): string {
+  return EXTENSIONS[mimeType] || 'png';
+}
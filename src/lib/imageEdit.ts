@@ -0,0 +1,114 @@
+import { canvasToBlob, createCanvas, decodeImage, ImageDimensions, MAX_CANVAS_DIMENSION } from './image';
+import { getJpegOrientation } from './metadata';
+import { preserveMetadata } from './preserveMetadata';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Applied in order: rotate, flip (both as seen on screen), then crop. The crop
+// is in pixels of the rotated and flipped image.
+export interface ImageEdit {
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop?: CropRect;
+}
+
+export const NO_EDIT: ImageEdit = { rotation: 0, flipHorizontal: false, flipVertical: false };
+
+// The rotate-then-flip that undoes an EXIF orientation (1-8)
+export function orientationToEdit(orientation: number): ImageEdit {
+  switch (orientation) {
+    case 2: return { ...NO_EDIT, flipHorizontal: true };
+    case 3: return { ...NO_EDIT, rotation: 180 };
+    case 4: return { ...NO_EDIT, flipVertical: true };
+    case 5: return { ...NO_EDIT, rotation: 90, flipHorizontal: true };
+    case 6: return { ...NO_EDIT, rotation: 90 };
+    case 7: return { ...NO_EDIT, rotation: 270, flipHorizontal: true };
+    case 8: return { ...NO_EDIT, rotation: 270 };
+    default: return NO_EDIT;
+  }
+}
+
+export function isEdited(edit?: ImageEdit): edit is ImageEdit {
+  return !!edit && (edit.rotation !== 0 || edit.flipHorizontal || edit.flipVertical || !!edit.crop);
+}
+
+export function rotatedDimensions(source: ImageDimensions, rotation: Rotation): ImageDimensions {
+  return rotation % 180 === 0 ? source : { width: source.height, height: source.width };
+}
+
+// Size of the image the provider will actually receive
+export function editedDimensions(source: ImageDimensions, edit?: ImageEdit): ImageDimensions {
+  if (edit?.crop) return { width: edit.crop.width, height: edit.crop.height };
+  return rotatedDimensions(source, edit?.rotation || 0);
+}
+
+export function describeEdit(edit: ImageEdit): string[] {
+  const changes: string[] = [];
+  if (edit.crop) changes.push(`Cropped to ${edit.crop.width} × ${edit.crop.height}px`);
+  if (edit.rotation) changes.push(`Rotated ${edit.rotation}°`);
+  if (edit.flipHorizontal) changes.push('Flipped horizontally');
+  if (edit.flipVertical) changes.push('Flipped vertically');
+  return changes;
+}
+
+// Draws the whole rotated and flipped image with its top-left corner at the
+// current origin, `scale` screen pixels per image pixel
+export function drawRotated(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  source: ImageDimensions,
+  edit: ImageEdit,
+  scale = 1
+): void {
+  const rotated = rotatedDimensions(source, edit.rotation);
+  ctx.save();
+  ctx.translate((rotated.width * scale) / 2, (rotated.height * scale) / 2);
+  ctx.scale(edit.flipHorizontal ? -scale : scale, edit.flipVertical ? -scale : scale);
+  ctx.rotate((edit.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -source.width / 2, -source.height / 2, source.width, source.height);
+  ctx.restore();
+}
+
+function withPngExtension(name: string): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.png`;
+}
+
+// Produces the file that is actually upscaled. Camera rotation (EXIF
+// orientation) is always baked in, since providers don't agree on whether to
+// honour it; otherwise an unedited file is returned as-is. Edited images are
+// saved as PNG so the upscaler doesn't enlarge fresh compression artefacts,
+// and keep the source metadata.
+export async function applyImageEdit(file: File, edit?: ImageEdit): Promise<File> {
+  const orientation = getJpegOrientation(new Uint8Array(await file.arrayBuffer()));
+  if (!isEdited(edit) && orientation === 1) return file;
+
+  const bitmap = await decodeImage(file);
+  try {
+    const source = { width: bitmap.width, height: bitmap.height };
+    const activeEdit = edit || NO_EDIT;
+    const output = editedDimensions(source, activeEdit);
+    if (output.width > MAX_CANVAS_DIMENSION || output.height > MAX_CANVAS_DIMENSION) {
+      throw new Error(`Edited image would be ${output.width}×${output.height}px, which exceeds the browser canvas limit.`);
+    }
+
+    const [canvas, ctx] = createCanvas(output.width, output.height);
+    if (activeEdit.crop) {
+      ctx.translate(-activeEdit.crop.x, -activeEdit.crop.y);
+    }
+    drawRotated(ctx, bitmap, source, activeEdit);
+    const blob = await canvasToBlob(canvas, 'png');
+    const preserved = await preserveMetadata(file, blob, output);
+    return new File([preserved.blob], withPngExtension(file.name), { type: preserved.blob.type, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
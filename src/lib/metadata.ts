@@ -0,0 +1,184 @@
+// Byte-level helpers for JPEG and PNG containers. These don't decode pixels,
+// so they also work server-side where no canvas is available.
+
+const JPEG_SOI = 0xd8;
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP14 = 0xee;
+const JPEG_COM = 0xfe;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks that only carry descriptive metadata; colour chunks (iCCP, sRGB,
+// gAMA, cHRM) and pHYs are kept because they change how pixels render
+const PNG_METADATA_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+
+export interface StripResult {
+  bytes: Uint8Array;
+  removedBytes: number;
+  removed: string[]; // Human-readable names of what was dropped
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === JPEG_SOI;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length > 8 && PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+}
+
+export function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export interface JpegSegment {
+  marker: number;
+  offset: number; // Offset of the 0xFF marker byte
+  length: number; // Total bytes including marker and length field
+}
+
+// Lists the header segments up to (not including) the start of scan
+export function readJpegSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_SOS || marker === JPEG_EOI) break;
+    const length = readUint16(bytes, offset + 2) + 2;
+    segments.push({ marker, offset, length });
+    offset += length;
+  }
+  return segments;
+}
+
+function describeJpegSegment(bytes: Uint8Array, segment: JpegSegment): string {
+  if (segment.marker === JPEG_COM) return 'comment';
+  const signature = readAscii(bytes, segment.offset + 4, Math.min(29, segment.length - 4));
+  if (signature.startsWith('Exif')) return 'EXIF';
+  if (signature.startsWith('http://ns.adobe.com/xap/1.0/')) return 'XMP';
+  if (signature.startsWith('Photoshop')) return 'IPTC';
+  return `APP${segment.marker - JPEG_APP0}`;
+}
+
+function stripJpeg(bytes: Uint8Array): StripResult {
+  const segments = readJpegSegments(bytes);
+  const keep: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed = new Set<string>();
+  let removedBytes = 0;
+  let end = 2;
+
+  for (const segment of segments) {
+    const isApp = segment.marker >= JPEG_APP0 && segment.marker <= 0xef;
+    // JFIF, ICC profile and Adobe colour transform affect decoding, keep them
+    const essential = segment.marker === JPEG_APP0 || segment.marker === JPEG_APP2 || segment.marker === JPEG_APP14;
+    if ((isApp && !essential) || segment.marker === JPEG_COM) {
+      removed.add(describeJpegSegment(bytes, segment));
+      removedBytes += segment.length;
+    } else {
+      keep.push(bytes.subarray(segment.offset, segment.offset + segment.length));
+    }
+    end = segment.offset + segment.length;
+  }
+  keep.push(bytes.subarray(end));
+
+  return { bytes: concatBytes(keep), removedBytes, removed: Array.from(removed) };
+}
+
+// Reads the EXIF orientation tag (1-8) from a JPEG, or 1 when absent
+export function getJpegOrientation(bytes: Uint8Array): number {
+  if (!isJpeg(bytes)) return 1;
+  const exif = readJpegSegments(bytes).find(segment =>
+    segment.marker === 0xe1 && readAscii(bytes, segment.offset + 4, 4) === 'Exif'
+  );
+  if (!exif) return 1;
+
+  const tiff = exif.offset + 10; // Marker, length and "Exif\0\0"
+  const littleEndian = bytes[tiff] === 0x49;
+  const read16 = (offset: number) => littleEndian
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : readUint16(bytes, offset);
+  const read32 = (offset: number) => littleEndian
+    ? (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)) + ((bytes[offset + 3] << 24) >>> 0)
+    : readUint32(bytes, offset);
+
+  const ifd = tiff + read32(tiff + 4);
+  const end = exif.offset + exif.length;
+  if (ifd + 2 > end) return 1;
+  const entries = read16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (read16(entry) === 0x0112) {
+      const orientation = read16(entry + 8);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+}
+
+export interface PngChunk {
+  type: string;
+  offset: number; // Offset of the length field
+  length: number; // Total bytes including length, type and CRC
+}
+
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const dataLength = readUint32(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    chunks.push({ type, offset, length: dataLength + 12 });
+    offset += dataLength + 12;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function stripPng(bytes: Uint8Array): StripResult {
+  const keep: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed = new Set<string>();
+  let removedBytes = 0;
+
+  for (const chunk of readPngChunks(bytes)) {
+    if (PNG_METADATA_CHUNKS.includes(chunk.type)) {
+      removed.add(chunk.type === 'eXIf' ? 'EXIF' : chunk.type === 'tIME' ? 'timestamp' : 'text');
+      removedBytes += chunk.length;
+    } else {
+      keep.push(bytes.subarray(chunk.offset, chunk.offset + chunk.length));
+    }
+  }
+
+  return { bytes: concatBytes(keep), removedBytes, removed: Array.from(removed) };
+}
+
+// Removes descriptive metadata (EXIF, XMP, IPTC, comments, text chunks) while
+// keeping everything that affects how the pixels decode. Unknown formats are
+// returned untouched.
+export function stripMetadata(bytes: Uint8Array): StripResult {
+  if (isJpeg(bytes)) return stripJpeg(bytes);
+  if (isPng(bytes)) return stripPng(bytes);
+  return { bytes, removedBytes: 0, removed: [] };
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_FILENAME_TEMPLATE } from './filenameTemplate';
+import type { MetadataPolicy } from './preserveMetadata';
+
+// Small user preferences kept in localStorage. Anything large or binary
+// belongs in IndexedDB instead (see db.ts).
+
+export interface Preferences {
+  filenameTemplate: string;
+  metadataPolicy: MetadataPolicy;
+}
+
+const STORAGE_KEY = 'pixelboost:preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  metadataPolicy: 'keep',
+};
+
+const listeners: Array<(preferences: Preferences) => void> = [];
+let cached: Preferences | null = null;
+
+export function loadPreferences(): Preferences {
+  if (!cached) {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      cached = { ...DEFAULT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+    } catch {
+      cached = { ...DEFAULT_PREFERENCES };
+    }
+  }
+  return cached;
+}
+
+export function savePreferences(changes: Partial<Preferences>): Preferences {
+  cached = { ...loadPreferences(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.warn('⚠️ Could not save preferences:', error);
+  }
+  listeners.forEach(listener => listener(cached!));
+  return cached;
+}
+
+export function subscribeToPreferences(listener: (preferences: Preferences) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
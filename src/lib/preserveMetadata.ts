@@ -0,0 +1,363 @@
+import { concatBytes, isJpeg, isPng, readAscii, readJpegSegments, readPngChunks, readUint16, readUint32 } from './metadata';
+import { editExif, editXmp } from './exif';
+import { crc32 } from './crc32';
+import type { ImageDimensions } from './image';
+
+// Carries EXIF, XMP, the ICC colour profile and DPI from a source image over
+// to an encoded result. Canvas and provider output have none of these, which
+// loses camera data and makes colour-managed apps misread the pixels.
+
+export type MetadataPolicy = 'keep' | 'strip-gps' | 'strip-all';
+
+export interface ImageMetadata {
+  exif?: Uint8Array; // TIFF structure, without the "Exif\0\0" prefix
+  xmp?: string;
+  icc?: Uint8Array;
+  dpi?: { x: number; y: number };
+}
+
+export interface PreserveResult {
+  blob: Blob;
+  kept: string[]; // Human-readable names of what was written
+}
+
+const EXIF_PREFIX = 'Exif\0\0';
+const XMP_PREFIX = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_PREFIX = 'ICC_PROFILE\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const INCHES_PER_METRE = 39.3701;
+const MAX_JPEG_SEGMENT_DATA = 0xffff - 2;
+const MAX_ICC_CHUNK = MAX_JPEG_SEGMENT_DATA - ICC_PREFIX.length - 2;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// PNG's iCCP and compressed iTXt use zlib streams, which is what 'deflate' means here
+const inflate = (bytes: Uint8Array) => transform(bytes, new DecompressionStream('deflate'));
+const deflate = (bytes: Uint8Array) => transform(bytes, new CompressionStream('deflate'));
+
+function startsWith(bytes: Uint8Array, offset: number, prefix: string): boolean {
+  return readAscii(bytes, offset, prefix.length) === prefix;
+}
+
+function indexOfZero(bytes: Uint8Array, from: number): number {
+  const index = bytes.indexOf(0, from);
+  return index === -1 ? bytes.length : index;
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([value >> 8, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  return new Uint8Array([value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+function u32le(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]);
+}
+
+function readUint32le(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)) + ((bytes[offset + 3] << 24) >>> 0);
+}
+
+export function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length > 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP';
+}
+
+// ---- JPEG ----
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  const iccChunks: Array<{ sequence: number; data: Uint8Array }> = [];
+
+  for (const segment of readJpegSegments(bytes)) {
+    const data = segment.offset + 4;
+    const end = segment.offset + segment.length;
+    if (segment.marker === 0xe1 && startsWith(bytes, data, EXIF_PREFIX)) {
+      metadata.exif = bytes.slice(data + EXIF_PREFIX.length, end);
+    } else if (segment.marker === 0xe1 && startsWith(bytes, data, XMP_PREFIX)) {
+      metadata.xmp = decoder.decode(bytes.subarray(data + XMP_PREFIX.length, end));
+    } else if (segment.marker === 0xe2 && startsWith(bytes, data, ICC_PREFIX)) {
+      iccChunks.push({ sequence: bytes[data + ICC_PREFIX.length], data: bytes.subarray(data + ICC_PREFIX.length + 2, end) });
+    } else if (segment.marker === 0xe0 && startsWith(bytes, data, 'JFIF\0')) {
+      const units = bytes[data + 7];
+      const x = readUint16(bytes, data + 8);
+      const y = readUint16(bytes, data + 10);
+      // Units 0 only give an aspect ratio
+      if (units === 1) metadata.dpi = { x, y };
+      if (units === 2) metadata.dpi = { x: x * 2.54, y: y * 2.54 };
+    }
+  }
+
+  if (iccChunks.length > 0) {
+    metadata.icc = concatBytes(iccChunks.sort((a, b) => a.sequence - b.sequence).map(chunk => chunk.data));
+  }
+  return metadata;
+}
+
+function jpegSegment(marker: number, parts: Uint8Array[]): Uint8Array {
+  const data = concatBytes(parts);
+  return concatBytes([new Uint8Array([0xff, marker]), u16(data.length + 2), data]);
+}
+
+function writeJpegMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const segments = readJpegSegments(bytes);
+  const jfif = segments.find(segment => segment.marker === 0xe0 && startsWith(bytes, segment.offset + 4, 'JFIF\0'));
+  const insertAt = jfif ? jfif.offset + jfif.length : 2;
+  const result = bytes.slice();
+
+  if (jfif && metadata.dpi) {
+    const data = jfif.offset + 4;
+    result[data + 7] = 1; // Dots per inch
+    result.set(u16(Math.round(metadata.dpi.x)), data + 8);
+    result.set(u16(Math.round(metadata.dpi.y)), data + 10);
+  }
+
+  const added: Uint8Array[] = [];
+  if (!jfif && metadata.dpi) {
+    // Density only has a home in JFIF, which has to come straight after SOI:
+    // version 1.01, units of dots per inch and no thumbnail
+    added.push(jpegSegment(0xe0, [
+      encoder.encode('JFIF\0'),
+      new Uint8Array([1, 1, 1]),
+      u16(Math.round(metadata.dpi.x)),
+      u16(Math.round(metadata.dpi.y)),
+      new Uint8Array([0, 0]),
+    ]));
+  }
+  if (metadata.exif) {
+    added.push(jpegSegment(0xe1, [encoder.encode(EXIF_PREFIX), metadata.exif]));
+  }
+  if (metadata.xmp) {
+    added.push(jpegSegment(0xe1, [encoder.encode(XMP_PREFIX), encoder.encode(metadata.xmp)]));
+  }
+  if (metadata.icc) {
+    // Profiles larger than one segment are split and numbered from 1
+    const count = Math.ceil(metadata.icc.length / MAX_ICC_CHUNK);
+    for (let index = 0; index < count; index++) {
+      const chunk = metadata.icc.subarray(index * MAX_ICC_CHUNK, (index + 1) * MAX_ICC_CHUNK);
+      added.push(jpegSegment(0xe2, [encoder.encode(ICC_PREFIX), new Uint8Array([index + 1, count]), chunk]));
+    }
+  }
+
+  return concatBytes([result.subarray(0, insertAt), ...added, result.subarray(insertAt)]);
+}
+
+// ---- PNG ----
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = {};
+
+  for (const chunk of readPngChunks(bytes)) {
+    const data = chunk.offset + 8;
+    const end = chunk.offset + chunk.length - 4;
+    if (chunk.type === 'eXIf') {
+      metadata.exif = bytes.slice(data, end);
+    } else if (chunk.type === 'iCCP') {
+      const nameEnd = indexOfZero(bytes, data);
+      metadata.icc = await inflate(bytes.subarray(nameEnd + 2, end));
+    } else if (chunk.type === 'pHYs' && bytes[data + 8] === 1) {
+      metadata.dpi = { x: readUint32(bytes, data) / INCHES_PER_METRE, y: readUint32(bytes, data + 4) / INCHES_PER_METRE };
+    } else if (chunk.type === 'iTXt' && startsWith(bytes, data, `${PNG_XMP_KEYWORD}\0`)) {
+      const flags = data + PNG_XMP_KEYWORD.length + 1;
+      const compressed = bytes[flags] === 1;
+      const languageEnd = indexOfZero(bytes, flags + 2);
+      const translatedEnd = indexOfZero(bytes, languageEnd + 1);
+      const text = bytes.subarray(translatedEnd + 1, end);
+      metadata.xmp = decoder.decode(compressed ? await inflate(text) : text);
+    }
+  }
+  return metadata;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concatBytes([encoder.encode(type), data]);
+  return concatBytes([u32(data.length), typeAndData, u32(crc32(typeAndData))]);
+}
+
+async function writePngMetadata(bytes: Uint8Array, metadata: ImageMetadata): Promise<Uint8Array> {
+  const added: Uint8Array[] = [];
+  if (metadata.icc) {
+    const name = encoder.encode('ICC Profile\0');
+    added.push(pngChunk('iCCP', concatBytes([name, new Uint8Array([0]), await deflate(metadata.icc)])));
+  }
+  if (metadata.dpi) {
+    added.push(pngChunk('pHYs', concatBytes([
+      u32(Math.round(metadata.dpi.x * INCHES_PER_METRE)),
+      u32(Math.round(metadata.dpi.y * INCHES_PER_METRE)),
+      new Uint8Array([1]), // Metres
+    ])));
+  }
+  if (metadata.exif) {
+    added.push(pngChunk('eXIf', metadata.exif));
+  }
+  if (metadata.xmp) {
+    // Keyword, uncompressed flag and method, empty language and translated keyword
+    added.push(pngChunk('iTXt', concatBytes([encoder.encode(`${PNG_XMP_KEYWORD}\0`), new Uint8Array([0, 0, 0, 0]), encoder.encode(metadata.xmp)])));
+  }
+
+  // A profile overrides any other colour chunks, so those go too
+  const replaced = [
+    ...(metadata.icc ? ['iCCP', 'sRGB', 'gAMA', 'cHRM'] : []),
+    ...(metadata.dpi ? ['pHYs'] : []),
+    ...(metadata.exif ? ['eXIf'] : []),
+  ];
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const chunk of readPngChunks(bytes)) {
+    if (!replaced.includes(chunk.type)) {
+      parts.push(bytes.subarray(chunk.offset, chunk.offset + chunk.length));
+    }
+    if (chunk.type === 'IHDR') {
+      parts.push(...added);
+    }
+  }
+  return concatBytes(parts);
+}
+
+// ---- WebP ----
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = readUint32le(bytes, offset + 4);
+    chunks.push({ type: readAscii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2); // Chunks are padded to an even length
+  }
+  return chunks;
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  for (const chunk of readRiffChunks(bytes)) {
+    if (chunk.type === 'ICCP') metadata.icc = chunk.data.slice();
+    if (chunk.type === 'XMP ') metadata.xmp = decoder.decode(chunk.data);
+    if (chunk.type === 'EXIF') {
+      // Some writers keep the JPEG-style prefix
+      const start = startsWith(chunk.data, 0, EXIF_PREFIX) ? EXIF_PREFIX.length : 0;
+      metadata.exif = chunk.data.slice(start);
+    }
+  }
+  return metadata;
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const parts = [encoder.encode(type), u32le(data.length), data];
+  if (data.length % 2) parts.push(new Uint8Array(1));
+  return concatBytes(parts);
+}
+
+// WebP has no DPI field; resolution only travels inside EXIF
+function writeWebpMetadata(bytes: Uint8Array, metadata: ImageMetadata, dimensions: ImageDimensions): Uint8Array {
+  const chunks = readRiffChunks(bytes);
+  const existing = chunks.find(chunk => chunk.type === 'VP8X');
+  const lossless = chunks.find(chunk => chunk.type === 'VP8L');
+  // Keep animation and alpha flags; a simple lossless image stores alpha in its header
+  let flags = existing ? existing.data[0] & 0x12 : 0;
+  if (!existing && lossless && (lossless.data[4] >> 4) & 1) flags |= 0x10;
+  if (metadata.icc) flags |= 0x20;
+  if (metadata.exif) flags |= 0x08;
+  if (metadata.xmp) flags |= 0x04;
+
+  const header = new Uint8Array(10);
+  header[0] = flags;
+  header.set(u32le(dimensions.width - 1).subarray(0, 3), 4);
+  header.set(u32le(dimensions.height - 1).subarray(0, 3), 7);
+
+  const parts = [riffChunk('VP8X', header)];
+  if (metadata.icc) parts.push(riffChunk('ICCP', metadata.icc));
+  chunks
+    .filter(chunk => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(chunk.type))
+    .forEach(chunk => parts.push(riffChunk(chunk.type, chunk.data)));
+  if (metadata.exif) parts.push(riffChunk('EXIF', metadata.exif));
+  if (metadata.xmp) parts.push(riffChunk('XMP ', encoder.encode(metadata.xmp)));
+
+  const body = concatBytes(parts);
+  return concatBytes([encoder.encode('RIFF'), u32le(body.length + 4), encoder.encode('WEBP'), body]);
+}
+
+// ---- Public API ----
+
+export async function readMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  if (isJpeg(bytes)) return readJpegMetadata(bytes);
+  if (isPng(bytes)) return readPngMetadata(bytes);
+  if (isWebp(bytes)) return readWebpMetadata(bytes);
+  return {};
+}
+
+// Applies the privacy policy, the new size and any requested DPI. Pixels
+// come out of the pipeline already upright, so the orientation tag is reset
+// to avoid a second rotation in viewers.
+function prepareMetadata(metadata: ImageMetadata, dimensions: ImageDimensions, policy: MetadataPolicy, dpi?: number): ImageMetadata {
+  // The colour profile and DPI describe the pixels, not the photographer
+  const prepared: ImageMetadata = { icc: metadata.icc, dpi: dpi ? { x: dpi, y: dpi } : metadata.dpi };
+  if (policy === 'strip-all') return prepared;
+
+  const changes = { ...dimensions, resetOrientation: true, removeGps: policy === 'strip-gps', dpi };
+  if (metadata.exif) prepared.exif = editExif(metadata.exif, changes) || undefined;
+  if (metadata.xmp) prepared.xmp = editXmp(metadata.xmp, changes);
+  return prepared;
+}
+
+function describe(metadata: ImageMetadata): string[] {
+  const kept: string[] = [];
+  if (metadata.exif) kept.push('EXIF');
+  if (metadata.xmp) kept.push('XMP');
+  if (metadata.icc) kept.push('colour profile');
+  if (metadata.dpi) kept.push(`${Math.round(metadata.dpi.x)} DPI`);
+  return kept;
+}
+
+// Copies metadata from `source` into `output`, with `dpi` overriding the
+// source resolution. Formats without support (e.g. AVIF) and failures leave
+// the output untouched rather than failing the upscale.
+export async function preserveMetadata(
+  source: Blob,
+  output: Blob,
+  dimensions: ImageDimensions,
+  policy: MetadataPolicy = 'keep',
+  dpi?: number
+): Promise<PreserveResult> {
+  try {
+    const sourceMetadata = await readMetadata(new Uint8Array(await source.arrayBuffer()));
+    const metadata = prepareMetadata(sourceMetadata, dimensions, policy, dpi);
+
+    // JPEG segments are capped at 64KB and extended XMP isn't supported
+    const outputBytes = new Uint8Array(await output.arrayBuffer());
+    if (isJpeg(outputBytes)) {
+      if (metadata.exif && metadata.exif.length + EXIF_PREFIX.length > MAX_JPEG_SEGMENT_DATA) metadata.exif = undefined;
+      if (metadata.xmp && encoder.encode(metadata.xmp).length + XMP_PREFIX.length > MAX_JPEG_SEGMENT_DATA) metadata.xmp = undefined;
+    }
+
+    const kept = describe(metadata);
+    if (kept.length === 0) return { blob: output, kept };
+
+    let bytes: Uint8Array;
+    if (isJpeg(outputBytes)) {
+      bytes = writeJpegMetadata(outputBytes, metadata);
+    } else if (isPng(outputBytes)) {
+      bytes = await writePngMetadata(outputBytes, metadata);
+    } else if (isWebp(outputBytes)) {
+      metadata.dpi = undefined;
+      bytes = writeWebpMetadata(outputBytes, metadata, dimensions);
+    } else {
+      return { blob: output, kept: [] };
+    }
+
+    return { blob: new Blob([bytes], { type: output.type }), kept: describe(metadata) };
+  } catch (error) {
+    console.warn('⚠️ Could not copy image metadata:', error);
+    return { blob: output, kept: [] };
+  }
+}
@@ -0,0 +1,144 @@
+import { getImageDimensions, readPixels } from './image';
+
+export interface QualityMetrics {
+  sharpness: number; // Variance of the Laplacian; higher is crisper
+  noise: number; // Estimated noise standard deviation, in 0-255 levels
+  psnr: number; // dB between the source and the output scaled back down
+  ssim: number; // 0-1 structural similarity for the same round trip
+}
+
+// Sharpness and noise are measured on a centre crop at full output
+// resolution; the round trip is compared at no more than this many pixels
+const ANALYSIS_CROP_SIZE = 1024;
+const MAX_ROUND_TRIP_PIXELS = 1_000_000;
+
+// Identical images have infinite PSNR; report a finite ceiling instead
+const MAX_PSNR = 100;
+
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+function toLuma(pixels: ImageData): Float32Array {
+  const { data } = pixels;
+  const luma = new Float32Array(pixels.width * pixels.height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function laplacianVariance(luma: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+// Immerkær's fast noise estimate: a kernel that cancels edges and smooth
+// gradients, leaving mostly noise
+function estimateNoise(luma: Float32Array, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        luma[i - width - 1] - 2 * luma[i - width] + luma[i - width + 1]
+        - 2 * luma[i - 1] + 4 * luma[i] - 2 * luma[i + 1]
+        + luma[i + width - 1] - 2 * luma[i + width] + luma[i + width + 1];
+      total += Math.abs(value);
+    }
+  }
+  return (total * Math.sqrt(Math.PI / 2)) / (6 * (width - 2) * (height - 2));
+}
+
+// Over the RGB channels; alpha is ignored
+function psnr(a: ImageData, b: ImageData): number {
+  let squaredError = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      const difference = a.data[i + channel] - b.data[i + channel];
+      squaredError += difference * difference;
+    }
+  }
+  const mse = squaredError / (a.width * a.height * 3);
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+}
+
+// Mean SSIM over overlapping square windows of the luma channel. Uniform
+// windows instead of the usual Gaussian keep it cheap; values are close.
+function ssim(a: Float32Array, b: Float32Array, width: number, height: number): number {
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const area = window * window;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += SSIM_STRIDE) {
+    for (let left = 0; left + window <= width; left += SSIM_STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + window; y++) {
+        for (let x = left; x < left + window; x++) {
+          const valueA = a[y * width + x];
+          const valueB = b[y * width + x];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+      const meanA = sumA / area;
+      const meanB = sumB / area;
+      const varianceA = sumAA / area - meanA * meanA;
+      const varianceB = sumBB / area - meanB * meanB;
+      const covariance = sumAB / area - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows === 0 ? 1 : total / windows;
+}
+
+// Scores an upscaled output against its source. The round trip scales the
+// output back down to the source size, so a faithful upscale scores high
+// even though it added detail; hallucinated or shifted content scores low.
+export async function measureQuality(source: Blob, output: Blob): Promise<QualityMetrics> {
+  const outputSize = await getImageDimensions(output);
+  const cropWidth = Math.min(ANALYSIS_CROP_SIZE, outputSize.width);
+  const cropHeight = Math.min(ANALYSIS_CROP_SIZE, outputSize.height);
+  const crop = await readPixels(output, cropWidth, cropHeight, {
+    x: Math.floor((outputSize.width - cropWidth) / 2),
+    y: Math.floor((outputSize.height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  });
+  const cropLuma = toLuma(crop);
+
+  const sourceSize = await getImageDimensions(source);
+  const reduction = Math.min(1, Math.sqrt(MAX_ROUND_TRIP_PIXELS / (sourceSize.width * sourceSize.height)));
+  const width = Math.max(1, Math.round(sourceSize.width * reduction));
+  const height = Math.max(1, Math.round(sourceSize.height * reduction));
+  const original = await readPixels(source, width, height);
+  const roundTrip = await readPixels(output, width, height);
+
+  return {
+    sharpness: laplacianVariance(cropLuma, cropWidth, cropHeight),
+    noise: estimateNoise(cropLuma, cropWidth, cropHeight),
+    psnr: psnr(original, roundTrip),
+    ssim: ssim(toLuma(original), toLuma(roundTrip), width, height),
+  };
+}
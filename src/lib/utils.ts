@@ -4,3 +4,26 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Moves `fromId` to where `toId` is, shifting the items in between
+export function moveId(ids: string[], fromId: string, toId: string): string[] {
+  const from = ids.indexOf(fromId)
+  const to = ids.indexOf(toId)
+  if (from === -1 || to === -1 || from === to) return ids
+  const moved = [...ids]
+  moved.splice(from, 1)
+  moved.splice(to, 0, fromId)
+  return moved
+}
+
+// `items` in the order of `ids`; items not listed keep their order at the end
+export function orderById<T extends { id: string }>(items: T[], ids: string[]): T[] {
+  const rank = new Map(ids.map((id, index) => [id, index]))
+  return [...items].sort((a, b) => (rank.get(a.id) ?? ids.length) - (rank.get(b.id) ?? ids.length))
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { finalizeCrc, updateCrc, CRC_INITIAL } from './crc32';
+import { createZipStream, uniqueEntryName } from './zip';
+import type { ZipEntry } from './zip';
+
+async function readZip(entries: ZipEntry[]): Promise<DataView> {
+  const buffer = await new Response(createZipStream(entries)).arrayBuffer();
+  return new DataView(buffer);
+}
+
+function crcOf(bytes: Uint8Array): number {
+  return finalizeCrc(updateCrc(CRC_INITIAL, bytes));
+}
+
+function readName(view: DataView, offset: number, length: number): string {
+  return new TextDecoder().decode(new Uint8Array(view.buffer, offset, length));
+}
+
+describe('createZipStream', () => {
+  const first = new TextEncoder().encode('hello world');
+  const second = new Uint8Array([0, 1, 2, 3, 255]);
+  const modified = new Date(2024, 4, 17, 13, 45, 30);
+
+  it('writes local headers, data and data descriptors for each entry', async () => {
+    const view = await readZip([
+      { name: 'a.txt', data: new Blob([first]), lastModified: modified },
+      { name: 'dir/b.bin', data: new Blob([second]), lastModified: modified },
+    ]);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0808); // Data descriptor + UTF-8 names
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+    expect(view.getUint32(14, true)).toBe(0); // CRC is in the descriptor
+    expect(view.getUint16(26, true)).toBe(5);
+    expect(readName(view, 30, 5)).toBe('a.txt');
+    expect(Array.from(new Uint8Array(view.buffer, 35, first.length))).toEqual(Array.from(first));
+
+    const descriptor = 35 + first.length;
+    expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+    expect(view.getUint32(descriptor + 4, true)).toBe(crcOf(first));
+    expect(view.getUint32(descriptor + 8, true)).toBe(first.length);
+    expect(view.getUint32(descriptor + 12, true)).toBe(first.length);
+
+    const secondHeader = descriptor + 16;
+    expect(view.getUint32(secondHeader, true)).toBe(0x04034b50);
+    expect(readName(view, secondHeader + 30, 9)).toBe('dir/b.bin');
+  });
+
+  it('writes a central directory that points back at each local header', async () => {
+    const view = await readZip([
+      { name: 'a.txt', data: new Blob([first]) },
+      { name: 'dir/b.bin', data: new Blob([second]) },
+    ]);
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    const expected = [
+      { name: 'a.txt', data: first },
+      { name: 'dir/b.bin', data: second },
+    ];
+    let offset = centralOffset;
+    for (const entry of expected) {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      expect(view.getUint32(offset + 16, true)).toBe(crcOf(entry.data));
+      expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+      expect(view.getUint32(offset + 24, true)).toBe(entry.data.length);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      expect(readName(view, offset + 46, nameLength)).toBe(entry.name);
+
+      const localOffset = view.getUint32(offset + 42, true);
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(readName(view, localOffset + 30, nameLength)).toBe(entry.name);
+      offset += 46 + nameLength + extraLength;
+    }
+    expect(offset).toBe(end);
+  });
+
+  it('encodes names as UTF-8', async () => {
+    const view = await readZip([{ name: 'café.png', data: new Blob([second]) }]);
+    expect(view.getUint16(26, true)).toBe(9);
+    expect(readName(view, 30, 9)).toBe('café.png');
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const view = await readZip([]);
+    expect(view.byteLength).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+    expect(view.getUint16(8, true)).toBe(0);
+  });
+
+  it('adds ZIP64 end records past 65535 entries', async () => {
+    const count = 0x10000;
+    const entries = function* () {
+      for (let index = 0; index < count; index++) {
+        yield { name: String(index), data: new Blob([]) };
+      }
+    };
+    const buffer = await new Response(createZipStream(entries())).arrayBuffer();
+    const view = new DataView(buffer);
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(0xffff);
+    expect(view.getUint32(end + 16, true)).toBe(0xffffffff);
+
+    const locator = end - 20;
+    expect(view.getUint32(locator, true)).toBe(0x07064b50);
+    const record = view.getUint32(locator + 8, true);
+    expect(record).toBe(locator - 56);
+    expect(view.getUint32(record, true)).toBe(0x06064b50);
+    expect(view.getUint32(record + 32, true)).toBe(count);
+    const centralSize = view.getUint32(record + 40, true);
+    const centralOffset = view.getUint32(record + 48, true);
+    expect(centralOffset + centralSize).toBe(record);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  }, 30000);
+});
+
+describe('uniqueEntryName', () => {
+  it('numbers repeated names before the extension, ignoring case', () => {
+    const used = new Set<string>();
+    expect(uniqueEntryName('photo.png', used)).toBe('photo.png');
+    expect(uniqueEntryName('Photo.PNG', used)).toBe('Photo (2).PNG');
+    expect(uniqueEntryName('photo.png', used)).toBe('photo (3).png');
+  });
+
+  it('only treats a dot in the file name as an extension', () => {
+    const used = new Set(['v1.0/readme']);
+    expect(uniqueEntryName('v1.0/readme', used)).toBe('v1.0/readme (2)');
+  });
+});
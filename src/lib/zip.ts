@@ -0,0 +1,234 @@
+import { CRC_INITIAL, finalizeCrc, updateCrc } from './crc32';
+
+// Streaming ZIP writer. Entries are stored uncompressed (upscaled PNG/JPEG/WebP
+// data is already compressed) and streamed one chunk at a time with data
+// descriptors, so nothing has to be buffered to know sizes or CRCs up front.
+// ZIP64 records are added when the archive grows past 4GB or 65535 entries.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, "/" separated
+  data: Blob;
+  lastModified?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAMES = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+const encoder = new TextEncoder();
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Little-endian writer over a fixed-size buffer
+class ByteWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number): this {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+    return this;
+  }
+
+  // Written as two halves so sizes past 4GB don't need BigInt
+  u64(value: number): this {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(bytes: Uint8Array): this {
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+    return this;
+  }
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  const zip64Offset = record.offset > MAX_UINT32;
+  const extra = zip64Offset ? new ByteWriter(12).u16(0x0001).u16(8).u64(record.offset).bytes : new Uint8Array(0);
+  return new ByteWriter(46 + record.name.length + extra.length)
+    .u32(CENTRAL_HEADER_SIGNATURE)
+    .u16(VERSION_ZIP64) // Version made by
+    .u16(zip64Offset ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAMES)
+    .u16(0) // Stored, no compression
+    .u16(record.time)
+    .u16(record.date)
+    .u32(record.crc)
+    .u32(record.size) // Compressed size
+    .u32(record.size)
+    .u16(record.name.length)
+    .u16(extra.length)
+    .u16(0) // Comment length
+    .u16(0) // Disk number
+    .u16(0) // Internal attributes
+    .u32(0) // External attributes
+    .u32(zip64Offset ? MAX_UINT32 : record.offset)
+    .raw(record.name)
+    .raw(extra)
+    .bytes;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array[] {
+  const needsZip64 = count > MAX_UINT16 || size > MAX_UINT32 || offset > MAX_UINT32;
+  const records: Uint8Array[] = [];
+
+  if (needsZip64) {
+    records.push(new ByteWriter(56)
+      .u32(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE)
+      .u64(44) // Size of the rest of this record
+      .u16(VERSION_ZIP64)
+      .u16(VERSION_ZIP64)
+      .u32(0)
+      .u32(0)
+      .u64(count)
+      .u64(count)
+      .u64(size)
+      .u64(offset)
+      .bytes);
+    records.push(new ByteWriter(20)
+      .u32(ZIP64_LOCATOR_SIGNATURE)
+      .u32(0)
+      .u64(offset + size) // The ZIP64 record follows the central directory
+      .u32(1)
+      .bytes);
+  }
+
+  records.push(new ByteWriter(22)
+    .u32(END_OF_CENTRAL_DIRECTORY_SIGNATURE)
+    .u16(0)
+    .u16(0)
+    .u16(Math.min(count, MAX_UINT16))
+    .u16(Math.min(count, MAX_UINT16))
+    .u32(Math.min(size, MAX_UINT32))
+    .u32(needsZip64 ? MAX_UINT32 : offset)
+    .u16(0)
+    .bytes);
+  return records;
+}
+
+async function* zipChunks(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const central: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (entry.data.size > MAX_UINT32) {
+      throw new Error(`${entry.name} is larger than 4GB and can't be added to the archive.`);
+    }
+
+    const name = encoder.encode(entry.name);
+    const { time, date } = toDosDateTime(entry.lastModified || new Date());
+    const header = new ByteWriter(30 + name.length)
+      .u32(LOCAL_HEADER_SIGNATURE)
+      .u16(VERSION_DEFAULT)
+      .u16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAMES)
+      .u16(0)
+      .u16(time)
+      .u16(date)
+      .u32(0) // CRC and sizes follow the data in the descriptor
+      .u32(0)
+      .u32(0)
+      .u16(name.length)
+      .u16(0)
+      .raw(name)
+      .bytes;
+    yield header;
+
+    let crc = CRC_INITIAL;
+    let size = 0;
+    const reader = entry.data.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      crc = updateCrc(crc, value);
+      size += value.length;
+      yield value;
+    }
+    crc = finalizeCrc(crc);
+
+    const descriptor = new ByteWriter(16).u32(DATA_DESCRIPTOR_SIGNATURE).u32(crc).u32(size).u32(size).bytes;
+    yield descriptor;
+
+    central.push({ name, time, date, crc, size, offset });
+    offset += header.length + size + descriptor.length;
+  }
+
+  let centralSize = 0;
+  for (const record of central) {
+    const header = centralHeader(record);
+    centralSize += header.length;
+    yield header;
+  }
+  yield* endOfCentralDirectory(central.length, centralSize, offset);
+}
+
+// Entries are read lazily, so an async iterable can produce them on demand
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// Adds " (2)", " (3)"... before the extension until the path is unused
+export function uniqueEntryName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > name.lastIndexOf('/') ? name.slice(0, dot) : name;
+  const extension = base.length < name.length ? name.slice(base.length) : '';
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
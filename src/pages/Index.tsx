@@ -1,11 +1,15 @@
-import React, { useState, useCallback } from 'react';
-import { Sparkles, Zap, Star, Heart, Images, Image as ImageIcon } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Sparkles, Zap, Star, Heart, Images, Image as ImageIcon, History } from 'lucide-react';
 import ImageUploader, { UploadedImage } from '@/components/ImageUploader';
 import ImageProcessor from '@/components/ImageProcessor';
 import MultiImageProcessor, { ProcessedImage } from '@/components/MultiImageProcessor';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { formatScale } from '@/lib/image';
+import { orderById } from '@/lib/utils';
+import { batchStore, SavedBatch, SavedBatchSummary } from '@/services/batchStore';
+import { MAX_BATCH_IMAGES } from '@/services/batchSettings';
 
 const Index = () => {
   // Single upload state (existing)
@@ -19,9 +23,16 @@ const Index = () => {
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
   const [multiUploadMode, setMultiUploadMode] = useState(false);
+  const [savedBatchSummary, setSavedBatchSummary] = useState<SavedBatchSummary | null>(null);
+  const [restoredBatch, setRestoredBatch] = useState<SavedBatch | undefined>(undefined);
 
   const { toast } = useToast();
 
+  // Offer to resume a batch left behind by a reload or crash
+  useEffect(() => {
+    batchStore.getSummary().then(setSavedBatchSummary);
+  }, []);
+
   // Single image handlers (existing)
   const handleImageUpload = useCallback((file: File) => {
     setUploadedFile(file);
@@ -46,35 +57,65 @@ const Index = () => {
 
   // Multi image handlers (new)
   const handleImagesUpload = useCallback((images: UploadedImage[]) => {
+    // Starting a new batch replaces the one that was waiting to be resumed
+    if (savedBatchSummary) {
+      setSavedBatchSummary(null);
+      batchStore.clear();
+    }
     setUploadedImages(images);
     setProcessedImages([]); // Reset processed images
-  }, []);
+  }, [savedBatchSummary]);
 
   const handleClearImages = useCallback(() => {
-    // Clean up URLs to prevent memory leaks
-    uploadedImages.forEach(img => {
-      URL.revokeObjectURL(img.url);
-    });
-    processedImages.forEach(img => {
-      if (img.url) {
-        URL.revokeObjectURL(img.url);
-      }
-    });
-    
     setUploadedImages([]);
     setProcessedImages([]);
+    setRestoredBatch(undefined);
     setIsProcessing(false);
     setProgress(0);
-  }, [uploadedImages, processedImages]);
+    // Leaves a batch that is still waiting to be resumed alone
+    if (uploadedImages.length > 0) {
+      batchStore.clear();
+    }
+  }, [uploadedImages]);
 
   const handleRemoveImage = useCallback((id: string) => {
-    setUploadedImages(prev => {
-      const imageToRemove = prev.find(img => img.id === id);
-      if (imageToRemove) {
-        URL.revokeObjectURL(imageToRemove.url);
-      }
-      return prev.filter(img => img.id !== id);
-    });
+    batchStore.deleteItem(id);
+    setUploadedImages(prev => prev.filter(img => img.id !== id));
+  }, []);
+
+  // Both the upload grid and the processing list reorder through here, so
+  // they always show (and process) images in the same order
+  const handleReorderImages = useCallback((ids: string[]) => {
+    setUploadedImages(prev => orderById(prev, ids));
+  }, []);
+
+  const handleResumeBatch = useCallback(async () => {
+    const batch = await batchStore.load();
+    setSavedBatchSummary(null);
+    if (!batch) {
+      toast({
+        title: "Nothing to Resume",
+        description: "The saved batch could not be found.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!multiUploadMode) {
+      handleClearImage();
+      setMultiUploadMode(true);
+    }
+    setRestoredBatch(batch);
+    setUploadedImages(batch.items.map(item => ({
+      file: item.file,
+      id: item.id,
+      hash: item.hash
+    })));
+  }, [multiUploadMode, handleClearImage, toast]);
+
+  const handleDiscardBatch = useCallback(() => {
+    setSavedBatchSummary(null);
+    batchStore.clear();
   }, []);
 
   // Mode toggle handler
@@ -106,7 +147,7 @@ const Index = () => {
       
       toast({
         title: "Image Upscaled!",
-        description: `Your image has been upscaled ${scale}x successfully!`,
+        description: `Your image has been upscaled ${formatScale(scale)} successfully!`,
       });
     } catch (error) {
       console.error('Error processing image:', error);
@@ -129,6 +170,11 @@ const Index = () => {
     });
   }, [toast]);
 
+  const handleProcessingCancelled = useCallback(() => {
+    setIsProcessing(false);
+    setProgress(0);
+  }, []);
+
   const handleProgressUpdate = useCallback((newProgress: number) => {
     setProgress(newProgress);
   }, []);
@@ -140,10 +186,12 @@ const Index = () => {
     
     const completedCount = results.filter(img => img.status === 'completed').length;
     const failedCount = results.filter(img => img.status === 'failed').length;
+    const cancelledCount = results.filter(img => img.status === 'cancelled').length;
+    const retryCount = results.reduce((total, img) => total + (img.retries || 0), 0);
     
     toast({
       title: "Batch Processing Complete!",
-      description: `${completedCount} images processed successfully${failedCount > 0 ? `, ${failedCount} failed` : ''}.`,
+      description: `${completedCount} images processed successfully${failedCount > 0 ? `, ${failedCount} failed` : ''}${cancelledCount > 0 ? `, ${cancelledCount} cancelled` : ''}${retryCount > 0 ? ` (${retryCount} ${retryCount === 1 ? 'retry' : 'retries'})` : ''}.`,
     });
   }, [toast]);
 
@@ -195,7 +243,7 @@ const Index = () => {
             </h1>
           </div>
           <p className="text-xl md:text-2xl text-white/80 mb-8 max-w-3xl mx-auto">
-            Transform your images with AI-powered upscaling. Upload single images or batch process up to 10 images at once. No registration required!
+            Transform your images with AI-powered upscaling. Upload single images or batch process up to {MAX_BATCH_IMAGES} images at once. No registration required!
           </p>
 
           {/* Features */}
@@ -216,6 +264,42 @@ const Index = () => {
 
         {/* Main Content */}
         <div className="space-y-8">
+          {/* Resume Prompt */}
+          {savedBatchSummary && (
+            <div className="flex justify-center">
+              <Card className="bg-white/10 backdrop-blur-lg border border-purple-400/40 max-w-2xl w-full">
+                <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+                  <History className="w-8 h-8 text-purple-300 shrink-0" />
+                  <div className="flex-1">
+                    <h3 className="text-lg font-semibold text-white">Resume previous batch?</h3>
+                    <p className="text-white/70 text-sm">
+                      {savedBatchSummary.total} image{savedBatchSummary.total !== 1 ? 's' : ''} from {new Date(savedBatchSummary.updatedAt).toLocaleString()}:{' '}
+                      {savedBatchSummary.completed} done, {savedBatchSummary.pending} pending
+                      {savedBatchSummary.failed > 0 && `, ${savedBatchSummary.failed} failed`}
+                      {savedBatchSummary.cancelled > 0 && `, ${savedBatchSummary.cancelled} cancelled`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleResumeBatch}
+                      disabled={isProcessing}
+                      className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold"
+                    >
+                      Resume previous batch
+                    </Button>
+                    <Button
+                      onClick={handleDiscardBatch}
+                      variant="outline"
+                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           {/* Mode Toggle */}
           <div className="flex justify-center mb-8">
             <Card className="bg-white/10 backdrop-blur-lg border border-white/20 max-w-2xl w-full">
@@ -262,7 +346,7 @@ const Index = () => {
                     <div className={`w-1.5 h-1.5 rounded-full ${
                       multiUploadMode ? 'bg-purple-400' : 'bg-blue-400'
                     } animate-pulse`}></div>
-                    {multiUploadMode ? 'Batch mode: Up to 10 images' : 'Single image mode'}
+                    {multiUploadMode ? `Batch mode: Up to ${MAX_BATCH_IMAGES} images` : 'Single image mode'}
                   </div>
                 </div>
               </CardContent>
@@ -301,6 +385,7 @@ const Index = () => {
                     progress={progress}
                     onProcessingComplete={handleProcessingComplete}
                     onProcessingError={handleProcessingError}
+                    onProcessingCancelled={handleProcessingCancelled}
                     onProgressUpdate={handleProgressUpdate}
                   />
                 </div>
@@ -316,9 +401,10 @@ const Index = () => {
                 uploadedImages={uploadedImages}
                 onClearImages={handleClearImages}
                 onRemoveImage={handleRemoveImage}
+                onReorderImages={handleReorderImages}
                 isProcessing={isProcessing}
                 multiUpload={true}
-                maxImages={10}
+                maxImages={MAX_BATCH_IMAGES}
               />
 
               {uploadedImages.length > 0 && (
@@ -326,6 +412,8 @@ const Index = () => {
                   images={uploadedImages}
                   onProcessingComplete={handleMultiProcessingComplete}
                   onProcessingError={handleMultiProcessingError}
+                  onReorder={handleReorderImages}
+                  restoredBatch={restoredBatch}
                 />
               )}
             </div>
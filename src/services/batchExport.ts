@@ -0,0 +1,131 @@
+import { createZipStream, uniqueEntryName } from '../lib/zip';
+import type { ZipEntry } from '../lib/zip';
+import { applyFilenameTemplate, stripExtension } from '../lib/filenameTemplate';
+import { extensionForType } from '../lib/image';
+import type { QualityMetrics } from '../lib/qualityMetrics';
+
+export type ManifestFormat = 'none' | 'json' | 'csv' | 'both';
+
+export interface BatchExportOptions {
+  includeOriginals: boolean;
+  manifest: ManifestFormat;
+  nameTemplate: string;
+}
+
+export interface BatchExportItem {
+  sourceFile: File;
+  resultType: string; // MIME type, known without loading the result
+  loadResult: () => Promise<Blob>; // Results may live in storage rather than memory
+  index: number; // 1-based position in the batch
+  scale: number;
+  width: number;
+  height: number;
+  providerId?: string;
+  mode?: string;
+  retries?: number;
+  inputChanges?: string[];
+  quality?: QualityMetrics;
+  nameTemplate?: string; // Per-image override of the batch template
+}
+
+export interface ManifestRow {
+  file: string;
+  original: string;
+  originalPath?: string; // Only when originals are included
+  originalBytes: number;
+  outputBytes: number;
+  width: number;
+  height: number;
+  scale: number;
+  provider: string;
+  mode: string;
+  retries: number;
+  adjustments: string;
+  // Quality report; empty when it couldn't be measured
+  sharpness?: number;
+  noise?: number;
+  psnr?: number;
+  ssim?: number;
+}
+
+const CSV_COLUMNS: (keyof ManifestRow)[] = [
+  'file', 'original', 'originalPath', 'originalBytes', 'outputBytes', 'width', 'height',
+  'scale', 'provider', 'mode', 'retries', 'adjustments', 'sharpness', 'noise', 'psnr', 'ssim',
+];
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function manifestToCsv(rows: ManifestRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  rows.forEach(row => lines.push(CSV_COLUMNS.map(column => csvField(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+function roundMetric(value: number | undefined, digits: number): number | undefined {
+  return value === undefined ? undefined : Number(value.toFixed(digits));
+}
+
+export function getResultFileName(item: BatchExportItem, template: string): string {
+  return applyFilenameTemplate(item.nameTemplate || template, {
+    name: stripExtension(item.sourceFile.name),
+    scale: item.scale,
+    index: item.index,
+    ext: extensionForType(item.resultType),
+    width: item.width || undefined,
+    height: item.height || undefined,
+    mode: item.mode || item.providerId,
+  });
+}
+
+// Entries are produced one at a time as the archive streams, so only the
+// image currently being written has to be loaded
+async function* exportEntries(items: BatchExportItem[], options: BatchExportOptions): AsyncGenerator<ZipEntry> {
+  const usedNames = new Set<string>();
+  const rows: ManifestRow[] = [];
+
+  for (const item of items) {
+    const fileName = uniqueEntryName(getResultFileName(item, options.nameTemplate), usedNames);
+    const result = await item.loadResult();
+    yield { name: fileName, data: result };
+
+    let originalPath: string | undefined;
+    if (options.includeOriginals) {
+      originalPath = uniqueEntryName(`originals/${item.sourceFile.name}`, usedNames);
+      yield { name: originalPath, data: item.sourceFile, lastModified: new Date(item.sourceFile.lastModified) };
+    }
+
+    rows.push({
+      file: fileName,
+      original: item.sourceFile.name,
+      originalPath,
+      originalBytes: item.sourceFile.size,
+      outputBytes: result.size,
+      width: item.width,
+      height: item.height,
+      scale: Number(item.scale.toFixed(4)),
+      provider: item.providerId || '',
+      mode: item.mode || '',
+      retries: item.retries || 0,
+      adjustments: (item.inputChanges || []).join('; '),
+      sharpness: roundMetric(item.quality?.sharpness, 1),
+      noise: roundMetric(item.quality?.noise, 3),
+      psnr: roundMetric(item.quality?.psnr, 2),
+      ssim: roundMetric(item.quality?.ssim, 4),
+    });
+  }
+
+  if (options.manifest === 'json' || options.manifest === 'both') {
+    const manifest = { createdAt: new Date().toISOString(), nameTemplate: options.nameTemplate, files: rows };
+    yield { name: 'manifest.json', data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) };
+  }
+  if (options.manifest === 'csv' || options.manifest === 'both') {
+    yield { name: 'manifest.csv', data: new Blob([manifestToCsv(rows)], { type: 'text/csv' }) };
+  }
+}
+
+export function createBatchZip(items: BatchExportItem[], options: BatchExportOptions): ReadableStream<Uint8Array> {
+  return createZipStream(exportEntries(items, options));
+}
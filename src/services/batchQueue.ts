@@ -0,0 +1,222 @@
+// 'cached' is a success that never waited on the provider (a cache hit or a
+// fallback result), so its latency says nothing about the provider's load
+export type BatchOutcome = 'completed' | 'cached' | 'failed' | 'cancelled';
+
+export type BatchQueueEvent =
+  | { type: 'started'; id: string }
+  | { type: 'finished'; id: string; outcome: BatchOutcome; durationMs: number }
+  | { type: 'concurrency'; limit: number }
+  | { type: 'drained' }; // Nothing pending and nothing running
+
+// A request that takes this much longer than the best recent average means
+// the provider is struggling, so we stop adding load
+const LATENCY_BACKOFF_RATIO = 2;
+// Concurrent requests tend to hit the same rate limit together; one backoff per window
+const RATE_LIMIT_COOLDOWN_MS = 5000;
+const LATENCY_SMOOTHING = 0.3;
+// The baseline follows faster averages at once and slower ones gradually, so
+// a provider that settles at a higher latency stops counting as struggling
+const BASELINE_DRIFT = 0.1;
+
+// Additive increase, multiplicative decrease: one more slot after a run of
+// successes as long as the current limit, half the slots on a 429, one fewer
+// when latency climbs. Never goes above the user's ceiling or below one.
+export class AdaptiveConcurrency {
+  limit: number;
+  private ceiling: number;
+  private successes = 0;
+  private averageMs: number | null = null;
+  private baselineMs: number | null = null;
+  private lastBackoffAt = 0;
+
+  constructor(ceiling: number, initial = 1) {
+    this.ceiling = Math.max(1, ceiling);
+    this.limit = Math.min(Math.max(1, initial), this.ceiling);
+  }
+
+  getCeiling(): number {
+    return this.ceiling;
+  }
+
+  // Each method returns whether the limit changed
+  setCeiling(ceiling: number): boolean {
+    this.ceiling = Math.max(1, ceiling);
+    return this.setLimit(Math.min(this.limit, this.ceiling));
+  }
+
+  onSuccess(latencyMs: number): boolean {
+    this.averageMs = this.averageMs === null
+      ? latencyMs
+      : this.averageMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    this.baselineMs = this.baselineMs === null
+      ? this.averageMs
+      : Math.min(this.averageMs, this.baselineMs * (1 - BASELINE_DRIFT) + this.averageMs * BASELINE_DRIFT);
+
+    if (this.averageMs > this.baselineMs * LATENCY_BACKOFF_RATIO && this.limit > 1) {
+      this.successes = 0;
+      this.averageMs = null; // Judge the new limit on fresh samples
+      return this.setLimit(this.limit - 1);
+    }
+
+    this.successes++;
+    if (this.successes >= this.limit && this.limit < this.ceiling) {
+      this.successes = 0;
+      return this.setLimit(this.limit + 1);
+    }
+    return false;
+  }
+
+  onRateLimit(): boolean {
+    const now = Date.now();
+    this.successes = 0;
+    if (now - this.lastBackoffAt < RATE_LIMIT_COOLDOWN_MS) return false;
+    this.lastBackoffAt = now;
+    return this.setLimit(Math.max(1, Math.floor(this.limit / 2)));
+  }
+
+  private setLimit(limit: number): boolean {
+    const changed = limit !== this.limit;
+    this.limit = limit;
+    return changed;
+  }
+}
+
+// Runs a task per item id with adaptive concurrency. Callers enqueue ids and
+// listen for events rather than polling item state; the queue never looks at
+// the items themselves.
+export class BatchQueue {
+  private pending: string[] = [];
+  private running = new Set<string>();
+  private paused = false;
+  private active = false;
+  private listeners: Array<(event: BatchQueueEvent) => void> = [];
+  private concurrency: AdaptiveConcurrency;
+  private task: (id: string) => Promise<BatchOutcome>;
+
+  constructor(task: (id: string) => Promise<BatchOutcome>, ceiling: number) {
+    this.task = task;
+    this.concurrency = new AdaptiveConcurrency(ceiling);
+  }
+
+  subscribe(listener: (event: BatchQueueEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(item => item !== listener);
+    };
+  }
+
+  get limit(): number {
+    return this.concurrency.limit;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  isQueued(id: string): boolean {
+    return this.pending.includes(id) || this.running.has(id);
+  }
+
+  enqueue(ids: string[]): void {
+    const added = ids.filter(id => !this.isQueued(id));
+    if (added.length === 0) return;
+    this.pending.push(...added);
+    this.active = true;
+    this.pump();
+  }
+
+  // Takes a waiting item out of the queue; running items are cancelled by their owner
+  remove(id: string): boolean {
+    const index = this.pending.indexOf(id);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    this.checkDrained();
+    return true;
+  }
+
+  // Waiting items start in the order of `ids`, so reordering the list takes
+  // effect even mid-batch; items not listed keep their order at the back
+  reorder(ids: string[]): void {
+    const rank = new Map(ids.map((id, index) => [id, index]));
+    this.pending.sort((a, b) => (rank.get(a) ?? ids.length) - (rank.get(b) ?? ids.length));
+  }
+
+  // Moves a waiting item to the front so it takes the next free slot
+  prioritize(id: string): boolean {
+    const index = this.pending.indexOf(id);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    this.pending.unshift(id);
+    return true;
+  }
+
+  clear(): void {
+    this.pending = [];
+    this.checkDrained();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pump();
+  }
+
+  setCeiling(ceiling: number): void {
+    if (this.concurrency.setCeiling(ceiling)) {
+      this.emit({ type: 'concurrency', limit: this.limit });
+    }
+    this.pump();
+  }
+
+  // Called as soon as a 429 is seen, even if the request is going to be retried
+  reportRateLimit(): void {
+    if (this.concurrency.onRateLimit()) {
+      console.log(`🐢 Rate limited, concurrency lowered to ${this.limit}`);
+      this.emit({ type: 'concurrency', limit: this.limit });
+    }
+  }
+
+  private emit(event: BatchQueueEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private pump(): void {
+    while (!this.paused && this.running.size < this.limit && this.pending.length > 0) {
+      this.start(this.pending.shift()!);
+    }
+    this.checkDrained();
+  }
+
+  private async start(id: string): Promise<void> {
+    this.running.add(id);
+    this.emit({ type: 'started', id });
+    const startedAt = Date.now();
+
+    let outcome: BatchOutcome;
+    try {
+      outcome = await this.task(id);
+    } catch (error) {
+      console.error(`❌ Batch task ${id} threw:`, error);
+      outcome = 'failed';
+    }
+
+    const durationMs = Date.now() - startedAt;
+    this.running.delete(id);
+    if (outcome === 'completed' && this.concurrency.onSuccess(durationMs)) {
+      console.log(`📈 Concurrency adjusted to ${this.limit}`);
+      this.emit({ type: 'concurrency', limit: this.limit });
+    }
+    this.emit({ type: 'finished', id, outcome, durationMs });
+    this.pump();
+  }
+
+  private checkDrained(): void {
+    if (this.active && this.pending.length === 0 && this.running.size === 0) {
+      this.active = false;
+      this.emit({ type: 'drained' });
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { formatScale } from '../lib/image';
+import { OUTPUT_FORMATS, TARGET_SIZE_PRESETS } from './upscalePipeline';
+import type { OutputEncoding, OutputSize } from './upscalePipeline';
+import type { UpscaleMode } from './upscaleProvider';
+
+// What a batch image is upscaled with. Images without their own settings
+// follow the batch panel; the provider is always shared by the whole batch.
+export interface ItemSettings {
+  sizeMode: 'scale' | 'target';
+  scale: number;
+  presetId: string;
+  mode?: UpscaleMode;
+  encoding: OutputEncoding;
+  nameTemplate?: string; // Falls back to the batch filename template
+}
+
+// Thumbnails, the virtualized grids and stored results keep memory flat, so
+// this only guards against a dropped drive's worth of photos
+export const MAX_BATCH_IMAGES = 1000;
+
+export const BATCH_SCALE_OPTIONS = [
+  { value: 2, label: '2x (Recommended)', description: 'Best quality/speed balance' },
+  { value: 4, label: '4x (High Quality)', description: 'Better for smaller images' },
+  { value: 8, label: '8x (Maximum)', description: 'Extreme upscaling' }
+];
+
+export function getSizePreset(settings: ItemSettings) {
+  return TARGET_SIZE_PRESETS.find(preset => preset.id === settings.presetId) || TARGET_SIZE_PRESETS[0];
+}
+
+export function itemOutputSize(settings: ItemSettings): OutputSize {
+  return settings.sizeMode === 'target' ? getSizePreset(settings).size : { type: 'scale', scale: settings.scale };
+}
+
+// Short summary for an image card, e.g. "4K UHD · JPEG 85%"
+export function describeItemSettings(settings: ItemSettings): string {
+  const size = settings.sizeMode === 'target' ? getSizePreset(settings).label : formatScale(settings.scale);
+  const format = OUTPUT_FORMATS.find(info => info.id === settings.encoding.format);
+  let encoding = format?.label || settings.encoding.format.toUpperCase();
+  if (format?.supportsLossless && settings.encoding.lossless) {
+    encoding += ' lossless';
+  } else if (format?.lossy) {
+    encoding += ` ${Math.round(settings.encoding.quality * 100)}%`;
+  }
+  return [size, encoding, settings.mode, settings.nameTemplate && 'custom name'].filter(Boolean).join(' · ');
+}
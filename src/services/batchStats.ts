@@ -0,0 +1,110 @@
+// Timing figures for a batch, worked out from when each image started and
+// finished rather than from provider progress, which is mostly synthetic.
+
+export interface TimedItem {
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused' | 'cancelled';
+  startedAt?: number; // Epoch ms of the latest attempt
+  finishedAt?: number;
+  durationMs?: number; // Completed images only
+  outputWidth?: number;
+  outputHeight?: number;
+  retries?: number;
+  credits?: number; // Spent on the completed image; 0 when cached or free
+}
+
+export interface Throughput {
+  imagesPerMinute: number;
+  megapixelsPerMinute: number; // Of output
+}
+
+export interface BatchSummary {
+  completed: number;
+  failed: number;
+  cancelled: number;
+  totalMs: number; // Wall-clock, from Start until the queue drained
+  averageMs: number; // Per completed image
+  retries: number;
+  credits: number;
+  megapixels: number;
+}
+
+// Long enough to smooth over slow images, short enough to follow rate limits
+// and concurrency changes
+const THROUGHPUT_WINDOW_MS = 2 * 60 * 1000;
+const ETA_SAMPLE_SIZE = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+const megapixelsOf = (item: TimedItem) => ((item.outputWidth || 0) * (item.outputHeight || 0)) / 1e6;
+
+const finishedSince = (items: TimedItem[], since: number) =>
+  items.filter(item => item.status === 'completed' && item.finishedAt !== undefined && item.finishedAt >= since);
+
+// Completions over the last couple of minutes of the current run; null until
+// the first image of the run has finished
+export function getThroughput(items: TimedItem[], runStartedAt: number, now: number): Throughput | null {
+  const windowStart = Math.max(runStartedAt, now - THROUGHPUT_WINDOW_MS);
+  const elapsed = now - windowStart;
+  const recent = finishedSince(items, windowStart);
+  if (recent.length === 0 || elapsed <= 0) return null;
+
+  const megapixels = recent.reduce((total, item) => total + megapixelsOf(item), 0);
+  return {
+    imagesPerMinute: (recent.length * MINUTE_MS) / elapsed,
+    megapixelsPerMinute: (megapixels * MINUTE_MS) / elapsed
+  };
+}
+
+// Time left for everything waiting or running, spread over the images that
+// can run at once. Uses the average of the latest completions, so it adapts
+// when later images are larger or the provider slows down. Null until an
+// image has completed.
+export function estimateRemainingMs(items: TimedItem[], concurrency: number, now: number): number | null {
+  const samples = items
+    .filter(item => item.status === 'completed' && item.durationMs !== undefined && item.finishedAt !== undefined)
+    .sort((a, b) => b.finishedAt! - a.finishedAt!)
+    .slice(0, ETA_SAMPLE_SIZE);
+  if (samples.length === 0) return null;
+  const average = samples.reduce((total, item) => total + item.durationMs!, 0) / samples.length;
+
+  const waiting = items.filter(item => item.status === 'pending' || item.status === 'paused').length;
+  const running = items.filter(item => item.status === 'processing');
+  if (waiting + running.length === 0) return 0;
+
+  // Images that already took longer than average are assumed nearly done
+  const work = waiting * average + running.reduce(
+    (total, item) => total + Math.max(0, average - (now - (item.startedAt ?? now))),
+    0
+  );
+  const slots = Math.max(1, Math.min(concurrency, waiting + running.length));
+  return work / slots;
+}
+
+// Everything that was attempted since the run started
+export function summarizeRun(items: TimedItem[], runStartedAt: number, finishedAt: number): BatchSummary {
+  const attempted = items.filter(item => item.startedAt !== undefined && item.startedAt >= runStartedAt);
+  const completed = attempted.filter(item => item.status === 'completed');
+  const totalDuration = completed.reduce((total, item) => total + (item.durationMs || 0), 0);
+
+  return {
+    completed: completed.length,
+    failed: attempted.filter(item => item.status === 'failed').length,
+    cancelled: attempted.filter(item => item.status === 'cancelled').length,
+    totalMs: finishedAt - runStartedAt,
+    averageMs: completed.length > 0 ? totalDuration / completed.length : 0,
+    retries: attempted.reduce((total, item) => total + (item.retries || 0), 0),
+    credits: completed.reduce((total, item) => total + (item.credits || 0), 0),
+    megapixels: completed.reduce((total, item) => total + megapixelsOf(item), 0)
+  };
+}
+
+// e.g. "8.4s", "3m 12s", "1h 05m"
+export function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 10) return `${seconds.toFixed(1)}s`;
+  const wholeSeconds = Math.round(seconds);
+  if (wholeSeconds < 60) return `${wholeSeconds}s`;
+  const minutes = Math.floor(wholeSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(wholeSeconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,156 @@
+import { STORES, isIndexedDBAvailable, withStore } from '../lib/db';
+import type { UpscaleMode } from './upscaleProvider';
+import type { OutputEncoding } from './upscalePipeline';
+import type { QualityMetrics } from '../lib/qualityMetrics';
+import type { ImageEdit } from '../lib/imageEdit';
+import type { ItemSettings } from './batchSettings';
+
+// Items that were mid-flight when the page went away are stored as pending
+export type StoredBatchStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface StoredBatchItem {
+  id: string;
+  order: number;
+  file: File;
+  hash?: string;
+  status: StoredBatchStatus;
+  error?: string;
+  scale?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  providerId?: string;
+  mode?: UpscaleMode;
+  inputChanges?: string[];
+  retries?: number;
+  quality?: QualityMetrics;
+  edit?: ImageEdit;
+  settings?: ItemSettings;
+  durationMs?: number;
+  credits?: number;
+  resultType?: string; // MIME type of the result kept in the results store
+  processedBlob?: Blob; // Result that couldn't go to the results store, or from older versions
+  updatedAt: number;
+}
+
+export interface BatchSettings {
+  providerId: string;
+  mode?: UpscaleMode;
+  sizeMode: 'scale' | 'target';
+  presetId: string;
+  scale: number;
+  maxConcurrency: number;
+  maxAttempts: number;
+  encoding?: OutputEncoding;
+}
+
+export interface SavedBatch {
+  settings?: BatchSettings;
+  items: StoredBatchItem[];
+}
+
+export interface SavedBatchSummary {
+  total: number;
+  pending: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  updatedAt: number;
+}
+
+const SETTINGS_KEY = 'settings';
+
+// Keeps the current batch (source files, results and settings) in IndexedDB
+// so a reload or crash doesn't lose it. There is only ever one saved batch.
+// Storage failures are logged and ignored: persistence must never stop the
+// batch itself from running. Results are stored apart from the items so
+// large batches don't have to keep every upscaled image in memory; they are
+// read back only when shown, compared or exported.
+class BatchStore {
+  isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  async saveItem(item: StoredBatchItem): Promise<void> {
+    try {
+      await withStore(STORES.batchItems, 'readwrite', store => store.put(item, item.id));
+    } catch (error) {
+      console.warn('⚠️ Could not save batch item:', error);
+    }
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    try {
+      await withStore(STORES.batchItems, 'readwrite', store => store.delete(id));
+      await withStore(STORES.batchResults, 'readwrite', store => store.delete(id));
+    } catch (error) {
+      console.warn('⚠️ Could not delete batch item:', error);
+    }
+  }
+
+  // Resolves false when the result has to stay in memory instead
+  async saveResult(id: string, result: Blob): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+    try {
+      await withStore(STORES.batchResults, 'readwrite', store => store.put(result, id));
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Could not save batch result:', error);
+      return false;
+    }
+  }
+
+  async loadResult(id: string): Promise<Blob | null> {
+    try {
+      return await withStore<Blob>(STORES.batchResults, 'readonly', store => store.get(id)) || null;
+    } catch (error) {
+      console.warn('⚠️ Could not load batch result:', error);
+      return null;
+    }
+  }
+
+  async saveSettings(settings: BatchSettings): Promise<void> {
+    try {
+      await withStore(STORES.batchMeta, 'readwrite', store => store.put(settings, SETTINGS_KEY));
+    } catch (error) {
+      console.warn('⚠️ Could not save batch settings:', error);
+    }
+  }
+
+  async load(): Promise<SavedBatch | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      const items = await withStore<StoredBatchItem[]>(STORES.batchItems, 'readonly', store => store.getAll());
+      if (!items || items.length === 0) return null;
+      const settings = await withStore<BatchSettings>(STORES.batchMeta, 'readonly', store => store.get(SETTINGS_KEY));
+      return { settings, items: items.sort((a, b) => a.order - b.order) };
+    } catch (error) {
+      console.warn('⚠️ Could not load saved batch:', error);
+      return null;
+    }
+  }
+
+  async getSummary(): Promise<SavedBatchSummary | null> {
+    const batch = await this.load();
+    if (!batch) return null;
+
+    const summary: SavedBatchSummary = { total: 0, pending: 0, completed: 0, failed: 0, cancelled: 0, updatedAt: 0 };
+    batch.items.forEach(item => {
+      summary.total++;
+      summary[item.status]++;
+      summary.updatedAt = Math.max(summary.updatedAt, item.updatedAt);
+    });
+    return summary;
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await withStore(STORES.batchItems, 'readwrite', store => store.clear());
+      await withStore(STORES.batchMeta, 'readwrite', store => store.clear());
+      await withStore(STORES.batchResults, 'readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('⚠️ Could not clear saved batch:', error);
+    }
+  }
+}
+
+export const batchStore = new BatchStore();
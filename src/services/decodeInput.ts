@@ -0,0 +1,278 @@
+import { canvasToBlob, createCanvas, decodeImage } from '../lib/image';
+import { drawRotated, orientationToEdit, rotatedDimensions } from '../lib/imageEdit';
+import { readAscii, readJpegSegments, readUint32 } from '../lib/metadata';
+import type { IFD } from 'utif2';
+
+// Formats that need converting before they can be previewed or uploaded.
+// Browsers show the rest (and some of these, e.g. HEIC in Safari) natively.
+export type InputKind = 'native' | 'heif' | 'avif' | 'tiff' | 'raw';
+
+export interface InputFormat {
+  label: string;
+  extensions: string[];
+}
+
+export const INPUT_FORMATS: InputFormat[] = [
+  { label: 'JPG', extensions: ['jpg', 'jpeg', 'jfif'] },
+  { label: 'PNG', extensions: ['png'] },
+  { label: 'GIF', extensions: ['gif'] },
+  { label: 'WebP', extensions: ['webp'] },
+  { label: 'BMP', extensions: ['bmp'] },
+  { label: 'AVIF', extensions: ['avif'] },
+  { label: 'HEIC', extensions: ['heic', 'heif'] },
+  { label: 'TIFF', extensions: ['tif', 'tiff'] },
+  // RAW sensor data isn't developed here: these use the JPEG the camera
+  // embeds, which is lossy and can be smaller than the sensor
+  { label: 'DNG (embedded preview)', extensions: ['dng'] },
+  { label: 'Camera RAW (CR2, NEF, ARW, ORF, RW2, RAF, PEF, SRW; embedded JPEG preview only)', extensions: ['cr2', 'nef', 'arw', 'orf', 'rw2', 'raf', 'pef', 'srw'] },
+];
+
+export const SUPPORTED_FORMATS_LABEL = INPUT_FORMATS.map(format => format.label).join(', ');
+
+// RAW files often have no MIME type, so the file picker is given extensions too
+export const INPUT_ACCEPT = ['image/*', ...INPUT_FORMATS.flatMap(format => format.extensions.map(ext => `.${ext}`))].join(',');
+
+const RAW_EXTENSIONS = ['dng', 'cr2', 'nef', 'arw', 'orf', 'rw2', 'raf', 'pef', 'srw'];
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+const TIFF_ORIENTATION = 't274';
+const TIFF_COMPRESSION = 't259';
+const TIFF_STRIP_OFFSETS = 't273';
+const TIFF_STRIP_BYTE_COUNTS = 't279';
+const TIFF_JPEG_OFFSET = 't513';
+const TIFF_JPEG_LENGTH = 't514';
+const TIFF_WIDTH = 't256';
+const JPEG_SOF_LOSSLESS = 0xc3; // Raw sensor data in DNG/CR2; browsers can't decode it
+
+export interface DecodedInput {
+  file: File;
+  changes: string[]; // What was done to the file, phrased for the user
+}
+
+function extensionOf(name: string): string {
+  return name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+}
+
+function withExtension(name: string, extension: string): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+}
+
+export function isSupportedInput(file: File): boolean {
+  const extension = extensionOf(file.name);
+  return file.type.startsWith('image/') || INPUT_FORMATS.some(format => format.extensions.includes(extension));
+}
+
+// ISO-BMFF files (HEIF, AVIF) list their brands in the leading ftyp box
+function readBrands(bytes: Uint8Array): string[] {
+  if (bytes.length < 16 || readAscii(bytes, 4, 4) !== 'ftyp') return [];
+  const size = Math.min(readUint32(bytes, 0), bytes.length);
+  const brands = [readAscii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4));
+  }
+  return brands;
+}
+
+export function detectInputKind(header: Uint8Array, name: string): InputKind {
+  const brands = readBrands(header);
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+  if (brands.some(brand => HEIF_BRANDS.includes(brand))) return 'heif';
+
+  const extension = extensionOf(name);
+  if (RAW_EXTENSIONS.includes(extension) || readAscii(header, 0, 15) === 'FUJIFILMCCD-RAW') return 'raw';
+
+  const order = readAscii(header, 0, 2);
+  if ((order === 'II' && header[2] === 42) || (order === 'MM' && header[3] === 42)) return 'tiff';
+  return 'native';
+}
+
+async function canDecodeNatively(file: Blob): Promise<boolean> {
+  try {
+    const bitmap = await decodeImage(file);
+    bitmap.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function pixelsToPng(pixels: ImageData, orientation = 1): Promise<Blob> {
+  const edit = orientationToEdit(orientation);
+  const source = { width: pixels.width, height: pixels.height };
+  const [sourceCanvas, sourceCtx] = createCanvas(source.width, source.height);
+  sourceCtx.putImageData(pixels, 0, 0);
+  if (orientation === 1) return canvasToBlob(sourceCanvas, 'png');
+
+  const output = rotatedDimensions(source, edit.rotation);
+  const [canvas, ctx] = createCanvas(output.width, output.height);
+  drawRotated(ctx, sourceCanvas, source, edit);
+  return canvasToBlob(canvas, 'png');
+}
+
+async function blobToPng(blob: Blob, orientation = 1): Promise<Blob> {
+  const bitmap = await decodeImage(blob);
+  try {
+    const source = { width: bitmap.width, height: bitmap.height };
+    const edit = orientationToEdit(orientation);
+    const output = rotatedDimensions(source, edit.rotation);
+    const [canvas, ctx] = createCanvas(output.width, output.height);
+    drawRotated(ctx, bitmap, source, edit);
+    return await canvasToBlob(canvas, 'png');
+  } finally {
+    bitmap.close();
+  }
+}
+
+// libheif applies the HEIF rotation and mirroring itself
+async function decodeHeif(bytes: Uint8Array): Promise<Blob> {
+  const { default: createLibHeif } = await import('libheif-js/libheif-wasm/libheif-bundle.mjs');
+  const libheif = createLibHeif();
+  const images = new libheif.HeifDecoder().decode(bytes);
+  if (images.length === 0) throw new Error('The HEIC file contains no images.');
+
+  const image = images.find(candidate => candidate.is_primary()) || images[0];
+  try {
+    const width = image.get_width();
+    const height = image.get_height();
+    const pixels = new ImageData(width, height);
+    await new Promise<void>((resolve, reject) => {
+      image.display(pixels, (result) => (result ? resolve() : reject(new Error('Could not decode the HEIC image.'))));
+    });
+    return await pixelsToPng(pixels);
+  } finally {
+    images.forEach(candidate => candidate.free());
+  }
+}
+
+async function decodeAvif(bytes: Uint8Array): Promise<Blob> {
+  const { default: decode } = await import('@jsquash/avif/decode');
+  const pixels = await decode(bytes.slice().buffer);
+  if (!pixels) throw new Error('Could not decode the AVIF image.');
+  return pixelsToPng(pixels);
+}
+
+function tagNumber(ifd: IFD, tag: string): number | undefined {
+  const value = ifd[tag];
+  return Array.isArray(value) && typeof value[0] === 'number' ? value[0] : undefined;
+}
+
+// Every IFD including the nested ones, where DNG and NEF keep their previews
+function allIfds(ifds: IFD[]): IFD[] {
+  return ifds.flatMap(ifd => [ifd, ...allIfds(((ifd as { subIFD?: IFD[] }).subIFD) || [])]);
+}
+
+function isDecodableJpeg(jpeg: Uint8Array): boolean {
+  if (jpeg.length < 4 || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return false;
+  return !readJpegSegments(jpeg).some(segment => segment.marker === JPEG_SOF_LOSSLESS);
+}
+
+// Camera RAW files carry a full-size (or nearly) JPEG rendered by the camera;
+// it is the camera's own development of the image, so it's used as-is
+function findEmbeddedJpeg(bytes: Uint8Array, ifds: IFD[]): Uint8Array | null {
+  const candidates: Uint8Array[] = [];
+  for (const ifd of allIfds(ifds)) {
+    const jpegOffset = tagNumber(ifd, TIFF_JPEG_OFFSET);
+    const jpegLength = tagNumber(ifd, TIFF_JPEG_LENGTH);
+    if (jpegOffset !== undefined && jpegLength) {
+      candidates.push(bytes.subarray(jpegOffset, jpegOffset + jpegLength));
+    }
+    const compression = tagNumber(ifd, TIFF_COMPRESSION);
+    const stripOffset = tagNumber(ifd, TIFF_STRIP_OFFSETS);
+    const stripLength = tagNumber(ifd, TIFF_STRIP_BYTE_COUNTS);
+    if ((compression === 6 || compression === 7) && stripOffset !== undefined && stripLength) {
+      candidates.push(bytes.subarray(stripOffset, stripOffset + stripLength));
+    }
+  }
+  const usable = candidates.filter(isDecodableJpeg);
+  return usable.length > 0 ? usable.reduce((largest, jpeg) => (jpeg.length > largest.length ? jpeg : largest)) : null;
+}
+
+// Fujifilm RAF isn't TIFF-based, but its header points straight at the JPEG
+function findRafJpeg(bytes: Uint8Array): Uint8Array | null {
+  if (readAscii(bytes, 0, 15) !== 'FUJIFILMCCD-RAW' || bytes.length < 92) return null;
+  const offset = readUint32(bytes, 84);
+  const jpeg = bytes.subarray(offset, offset + readUint32(bytes, 88));
+  return isDecodableJpeg(jpeg) ? jpeg : null;
+}
+
+async function decodeRaw(bytes: Uint8Array, name: string): Promise<{ blob: Blob; preview: boolean }> {
+  const rafJpeg = findRafJpeg(bytes);
+  if (rafJpeg) return { blob: new Blob([rafJpeg], { type: 'image/jpeg' }), preview: true };
+
+  const UTIF = await import('utif2');
+  const ifds = UTIF.decode(bytes.slice().buffer);
+  const orientation = (ifds[0] && tagNumber(ifds[0], TIFF_ORIENTATION)) || 1;
+  const jpeg = findEmbeddedJpeg(bytes, ifds);
+  if (jpeg) {
+    const blob = new Blob([jpeg], { type: 'image/jpeg' });
+    return { blob: orientation === 1 ? blob : await blobToPng(blob, orientation), preview: true };
+  }
+
+  // No usable preview (some DNGs): develop the sensor data directly
+  const images = allIfds(ifds).filter(ifd => tagNumber(ifd, TIFF_WIDTH));
+  const largest = images.reduce<IFD | null>((best, ifd) => (
+    !best || (tagNumber(ifd, TIFF_WIDTH) || 0) > (tagNumber(best, TIFF_WIDTH) || 0) ? ifd : best
+  ), null);
+  if (!largest) throw new Error(`${extensionOf(name).toUpperCase() || 'This RAW'} file contains no image we can read.`);
+  UTIF.decodeImage(bytes.slice().buffer, largest);
+  const rgba = UTIF.toRGBA8(largest);
+  return { blob: await pixelsToPng(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), largest.width, largest.height), orientation), preview: false };
+}
+
+// Multi-page TIFFs use the first page; thumbnails stored alongside are skipped
+async function decodeTiff(bytes: Uint8Array): Promise<{ blob: Blob; pages: number }> {
+  const UTIF = await import('utif2');
+  const pages = UTIF.decode(bytes.slice().buffer).filter(ifd => tagNumber(ifd, TIFF_WIDTH));
+  if (pages.length === 0) throw new Error('The TIFF file contains no images.');
+  const page = pages[0];
+  UTIF.decodeImage(bytes.slice().buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  const pixels = new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), page.width, page.height);
+  return { blob: await pixelsToPng(pixels, tagNumber(page, TIFF_ORIENTATION) || 1), pages: pages.length };
+}
+
+// Converts formats browsers can't display into something they can: a
+// lossless PNG, or for RAW files the camera's own (lossy) JPEG preview. Decoders are loaded
+// only when such a file turns up. Formats the browser already handles are
+// returned untouched.
+export async function decodeInput(file: File): Promise<DecodedInput> {
+  const header = new Uint8Array(await file.slice(0, 256).arrayBuffer());
+  const kind = detectInputKind(header, file.name);
+  if (kind === 'native') return { file, changes: [] };
+
+  const label = kind === 'raw' ? (extensionOf(file.name).toUpperCase() || 'RAW') : kind === 'heif' ? 'HEIC' : kind.toUpperCase();
+  const changes: string[] = [];
+  let blob: Blob;
+
+  // AVIF (everywhere current) and HEIC/TIFF (Safari) may decode natively
+  const native = kind !== 'raw' && await canDecodeNatively(file);
+  if (native && kind === 'avif') {
+    return { file, changes };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (native) {
+    blob = await blobToPng(file);
+  } else if (kind === 'heif') {
+    blob = await decodeHeif(bytes);
+  } else if (kind === 'avif') {
+    blob = await decodeAvif(bytes);
+  } else if (kind === 'tiff') {
+    const tiff = await decodeTiff(bytes);
+    blob = tiff.blob;
+    if (tiff.pages > 1) changes.push(`Used page 1 of ${tiff.pages}`);
+  } else {
+    const raw = await decodeRaw(bytes, file.name);
+    blob = raw.blob;
+    if (raw.preview) changes.push(`Used the camera's JPEG preview from the ${label} file, not the RAW sensor data`);
+  }
+
+  const extension = blob.type === 'image/jpeg' ? 'jpg' : 'png';
+  changes.unshift(`Converted ${label} to ${extension === 'jpg' ? 'JPEG' : 'PNG'}`);
+  return {
+    file: new File([blob], withExtension(file.name, extension), { type: blob.type, lastModified: file.lastModified }),
+    changes,
+  };
+}
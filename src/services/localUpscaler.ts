@@ -0,0 +1,170 @@
+import { decodeImage, encodingQuality, getImageDimensions, resampleImage, MAX_CANVAS_DIMENSION } from '../lib/image';
+import { UpscaleCancelledError, isCancellation, throwIfCancelled } from './upscaleProvider';
+import type { OutputFormat, UpscaleOptions, UpscaleProgress, UpscaleProvider } from './upscaleProvider';
+import type { LocalUpscaleRequest, LocalUpscaleResponse, ResampleFilter } from '../workers/localUpscale.worker';
+
+export interface LocalUpscalerOptions {
+  filter?: ResampleFilter;
+  sharpen?: number;
+}
+
+// The output, sharpening buffers and the encoding canvas each hold a full
+// copy of the image; past about 40 MP together they can exhaust a tab
+const MAX_OUTPUT_PIXELS = 40_000_000;
+
+interface PendingJob {
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: UpscaleProgress) => void;
+}
+
+// Upscales entirely in the browser, no network or API key needed, which makes
+// it useful for demos, tests and as a fallback when the cloud provider is
+// unusable. The heavy lifting runs in a Web Worker with OffscreenCanvas;
+// browsers without those fall back to canvas smoothing on the main thread.
+export class LocalUpscaler implements UpscaleProvider {
+  readonly id = 'local';
+  readonly name = 'Local (in-browser)';
+  readonly description = 'Offline Lanczos resampling on this device, no credits used';
+  readonly outputFormats: OutputFormat[] = ['png', 'jpeg', 'webp'];
+  readonly free = true;
+
+  private filter: ResampleFilter;
+  private sharpen: number;
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+  private jobs = new Map<number, PendingJob>();
+
+  constructor(options: LocalUpscalerOptions = {}) {
+    this.filter = options.filter || 'lanczos';
+    this.sharpen = options.sharpen ?? 0.6;
+  }
+
+  isAvailable(): boolean {
+    return typeof document !== 'undefined';
+  }
+
+  private supportsWorker(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/localUpscale.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<LocalUpscaleResponse>) => {
+        const data = event.data;
+        const job = this.jobs.get(data.id);
+        if (!job) return;
+
+        if (data.type === 'progress') {
+          job.onProgress?.({ progress: data.progress, status: 'processing', message: data.message });
+        } else if (data.type === 'result') {
+          this.jobs.delete(data.id);
+          job.resolve(data.blob);
+        } else {
+          this.jobs.delete(data.id);
+          job.reject(new Error(data.message));
+        }
+      };
+      this.worker.onerror = (event) => {
+        // A crashed worker takes every queued job with it
+        const error = new Error(event.message || 'Local upscaling worker crashed.');
+        this.jobs.forEach(job => job.reject(error));
+        this.jobs.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  private async upscaleInWorker(
+    imageFile: File,
+    width: number,
+    height: number,
+    options: UpscaleOptions,
+    onProgress?: (progress: UpscaleProgress) => void
+  ): Promise<Blob> {
+    const bitmap = await decodeImage(imageFile);
+    const id = this.nextJobId++;
+    const request: LocalUpscaleRequest = {
+      id,
+      bitmap,
+      width,
+      height,
+      filter: this.filter,
+      sharpen: this.sharpen,
+      format: options.format || 'png',
+      quality: encodingQuality(options.format || 'png', options.quality, options.lossless),
+    };
+
+    return new Promise<Blob>((resolve, reject) => {
+      const signal = options.signal;
+      const onAbort = () => {
+        if (!this.jobs.delete(id)) return;
+        reject(new UpscaleCancelledError());
+        // The worker can't be interrupted mid-job, so stop it if nothing else needs it
+        if (this.jobs.size === 0) {
+          this.worker?.terminate();
+          this.worker = null;
+        }
+      };
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      this.jobs.set(id, {
+        resolve: (blob) => { cleanup(); resolve(blob); },
+        reject: (error) => { cleanup(); reject(error); },
+        onProgress,
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.getWorker().postMessage(request, [bitmap]);
+    });
+  }
+
+  async upscaleImage(
+    imageFile: File,
+    options: UpscaleOptions,
+    onProgress?: (progress: UpscaleProgress) => void
+  ): Promise<Blob> {
+    try {
+      if (!imageFile.type.startsWith('image/')) {
+        throw new Error('Invalid file type. Please upload an image file.');
+      }
+      throwIfCancelled(options.signal);
+
+      onProgress?.({ progress: 10, status: 'processing', message: 'Decoding image...' });
+      const source = await getImageDimensions(imageFile);
+
+      const scale = Math.max(1, options.scale || 1);
+      const width = Math.round(source.width * scale);
+      const height = Math.round(source.height * scale);
+      if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION) {
+        throw new Error(`Output would be ${width}×${height}px, which exceeds the browser canvas limit.`);
+      }
+      if (width * height > MAX_OUTPUT_PIXELS) {
+        throw new Error(`Output would be ${Math.round((width * height) / 1e6)} MP; local upscaling is limited to ${MAX_OUTPUT_PIXELS / 1e6} MP to stay within browser memory.`);
+      }
+
+      let blob: Blob;
+      if (this.supportsWorker()) {
+        blob = await this.upscaleInWorker(imageFile, width, height, options, onProgress);
+      } else {
+        onProgress?.({ progress: 40, status: 'processing', message: 'Resampling...' });
+        blob = await resampleImage(imageFile, width, height, options.format || 'png', options.quality, options.lossless);
+      }
+
+      onProgress?.({ progress: 100, status: 'completed', message: 'Image upscaled locally!' });
+      return blob;
+    } catch (error) {
+      if (isCancellation(error)) {
+        onProgress?.({ progress: 0, status: 'cancelled', message: 'Upscale cancelled.' });
+        throw new UpscaleCancelledError();
+      }
+
+      console.error('🚨 Local upscaling error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to upscale image locally.';
+      onProgress?.({ progress: 0, status: 'failed', message: errorMessage });
+      throw new Error(errorMessage);
+    }
+  }
+}
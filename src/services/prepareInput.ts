@@ -0,0 +1,146 @@
+import { getImageDimensions, resampleImage, ImageEncoding } from '../lib/image';
+import { getJpegOrientation, stripMetadata } from '../lib/metadata';
+import { formatFileSize } from '../lib/utils';
+import { needsTiling } from './tiledUpscale';
+import type { InputLimits } from './upscaleProvider';
+
+export interface PreparedInput {
+  file: File;
+  changes: string[]; // What was done to the file, phrased for the user
+}
+
+// Lossy qualities tried in order before resorting to downscaling
+const REENCODE_QUALITIES = [0.95, 0.9, 0.85];
+const MAX_DOWNSCALE_ATTEMPTS = 4;
+
+function canDecode(): boolean {
+  return typeof createImageBitmap !== 'undefined' && typeof document !== 'undefined';
+}
+
+function formatLabel(type: string): string {
+  return type.replace('image/', '').toUpperCase();
+}
+
+function withExtension(name: string, format: ImageEncoding): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${format === 'jpeg' ? 'jpg' : format}`;
+}
+
+function toFile(blob: Blob, name: string): File {
+  return new File([blob], name, { type: blob.type });
+}
+
+// Encoders report their real output type; Safari, for one, silently falls
+// back to PNG for WebP, which we must not mistake for success.
+async function encode(
+  file: File,
+  width: number,
+  height: number,
+  format: ImageEncoding,
+  quality?: number
+): Promise<File | null> {
+  const blob = await resampleImage(file, width, height, format, quality);
+  return blob.type === `image/${format}` ? toFile(blob, withExtension(file.name, format)) : null;
+}
+
+// Makes a file acceptable to a provider instead of rejecting it: converts
+// unsupported formats, strips metadata, re-encodes and, as a last resort,
+// downscales until it fits. Each step only runs if the previous one wasn't
+// enough. Without a canvas (server-side) only the metadata step is possible.
+export async function prepareInput(file: File, limits: InputLimits): Promise<PreparedInput> {
+  const changes: string[] = [];
+  const decodable = canDecode();
+  let current = file;
+
+  // 1. Convert formats the provider can't read to lossless PNG
+  if (limits.acceptedTypes && !limits.acceptedTypes.includes(current.type)) {
+    const accepted = limits.acceptedTypes.map(formatLabel).join(', ');
+    if (!decodable) {
+      throw new Error(`${formatLabel(current.type) || 'This'} images are not supported. Please upload ${accepted}.`);
+    }
+    const dimensions = await getImageDimensions(current);
+    const converted = await encode(current, dimensions.width, dimensions.height, 'png');
+    if (!converted) {
+      throw new Error(`Could not convert ${formatLabel(current.type)} to a supported format (${accepted}).`);
+    }
+    changes.push(`Converted ${formatLabel(current.type)} to PNG`);
+    current = converted;
+  }
+
+  const maxFileSize = limits.maxFileSize;
+  if (!maxFileSize || current.size <= maxFileSize) {
+    return { file: current, changes };
+  }
+
+  // Images that will be tiled are re-encoded tile by tile, so size doesn't matter
+  const dimensions = decodable ? await getImageDimensions(current) : null;
+  if (dimensions && needsTiling(dimensions, limits)) {
+    return { file: current, changes };
+  }
+
+  // 2. Drop descriptive metadata. JPEG orientation lives in EXIF, so rotated
+  // photos skip this step and get the orientation baked in by re-encoding.
+  const bytes = new Uint8Array(await current.arrayBuffer());
+  if (getJpegOrientation(bytes) === 1) {
+    const stripped = stripMetadata(bytes);
+    if (stripped.removedBytes > 0) {
+      changes.push(`Removed ${formatFileSize(stripped.removedBytes)} of metadata (${stripped.removed.join(', ')})`);
+      current = new File([stripped.bytes], current.name, { type: current.type });
+    }
+  }
+  if (current.size <= maxFileSize) {
+    return { file: current, changes };
+  }
+
+  if (!dimensions) {
+    throw new Error(`Image is ${formatFileSize(current.size)}; the limit is ${formatFileSize(maxFileSize)}. Please upload a smaller file.`);
+  }
+
+  // 3. Re-encode lossily, preferring WebP because it keeps transparency
+  const accepts = (format: ImageEncoding) => !limits.acceptedTypes || limits.acceptedTypes.includes(`image/${format}`);
+  const formats = (['webp', 'jpeg'] as ImageEncoding[]).filter(accepts);
+  const originalSize = current.size;
+  let lastEncoded: { file: File; format: ImageEncoding; quality: number } | null = null;
+
+  for (const format of formats) {
+    for (const quality of REENCODE_QUALITIES) {
+      const encoded = await encode(current, dimensions.width, dimensions.height, format, quality);
+      if (!encoded) break; // Format not supported by this browser's encoder
+      lastEncoded = { file: encoded, format, quality };
+      if (encoded.size <= maxFileSize) {
+        changes.push(
+          `Re-encoded ${formatLabel(current.type)} as ${formatLabel(encoded.type)} at ${Math.round(quality * 100)}% quality ` +
+          `(${formatFileSize(originalSize)} → ${formatFileSize(encoded.size)})`
+        );
+        return { file: encoded, changes };
+      }
+    }
+    if (lastEncoded) break;
+  }
+
+  // 4. Downscale with the smallest encoding we found until it fits
+  if (!lastEncoded) {
+    throw new Error(`Image is ${formatFileSize(current.size)} and could not be re-encoded below ${formatFileSize(maxFileSize)}.`);
+  }
+  let { width, height } = dimensions;
+  let candidate = lastEncoded.file;
+  for (let attempt = 0; attempt < MAX_DOWNSCALE_ATTEMPTS && candidate.size > maxFileSize; attempt++) {
+    // File size scales roughly with pixel count, so shrink both sides by the square root
+    const factor = Math.sqrt(maxFileSize / candidate.size) * 0.95;
+    width = Math.max(1, Math.floor(width * factor));
+    height = Math.max(1, Math.floor(height * factor));
+    const encoded = await encode(current, width, height, lastEncoded.format, lastEncoded.quality);
+    if (!encoded) break;
+    candidate = encoded;
+  }
+
+  if (candidate.size > maxFileSize) {
+    throw new Error(`Image is ${formatFileSize(originalSize)} and could not be reduced below ${formatFileSize(maxFileSize)}.`);
+  }
+
+  changes.push(
+    `Downscaled ${dimensions.width}×${dimensions.height} → ${width}×${height} and re-encoded as ` +
+    `${formatLabel(candidate.type)} to fit the ${formatFileSize(maxFileSize)} limit`
+  );
+  return { file: candidate, changes };
+}
@@ -0,0 +1,101 @@
+import { STORES, isIndexedDBAvailable, withStore } from '../lib/db';
+import type { UpscaleResult } from './upscalePipeline';
+
+// Everything that changes the output bytes for a given source
+export interface ResultCacheKey {
+  hash: string; // SHA-256 of the file sent to the pipeline
+  providerId: string;
+  mode?: string;
+  width: number; // Output size, which covers every way of choosing a scale
+  height: number;
+  format: string;
+  quality?: number;
+  lossless?: boolean;
+  metadata: string; // Metadata policy
+  dpi?: number;
+}
+
+interface CachedResult {
+  key: string;
+  result: UpscaleResult;
+  size: number;
+  usedAt: number;
+}
+
+// Upscaled images are large, so only the most recently used are kept
+const MAX_ENTRIES = 50;
+const MAX_BYTES = 500 * 1024 * 1024;
+
+export function toCacheKey(key: ResultCacheKey): string {
+  return [
+    key.hash,
+    key.providerId,
+    key.mode || '-',
+    `${key.width}x${key.height}`,
+    key.format,
+    key.quality ?? '-',
+    key.lossless ? 'lossless' : '-',
+    key.metadata,
+    key.dpi ?? '-',
+  ].join('|');
+}
+
+// Finished upscales keyed by source content and settings, so uploading the
+// same photo again with the same settings costs nothing. Like the batch
+// store, failures are logged and treated as a miss.
+class ResultCache {
+  isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  async get(key: ResultCacheKey): Promise<UpscaleResult | null> {
+    if (!this.isAvailable()) return null;
+    const id = toCacheKey(key);
+    try {
+      const entry = await withStore<CachedResult>(STORES.resultCache, 'readonly', store => store.get(id));
+      if (!entry) return null;
+      await withStore(STORES.resultCache, 'readwrite', store => store.put({ ...entry, usedAt: Date.now() }, id));
+      return entry.result;
+    } catch (error) {
+      console.warn('⚠️ Could not read cached result:', error);
+      return null;
+    }
+  }
+
+  async put(key: ResultCacheKey, result: UpscaleResult): Promise<void> {
+    if (!this.isAvailable() || result.blob.size > MAX_BYTES) return;
+    const id = toCacheKey(key);
+    try {
+      const entry: CachedResult = { key: id, result, size: result.blob.size, usedAt: Date.now() };
+      await withStore(STORES.resultCache, 'readwrite', store => store.put(entry, id));
+      await this.prune();
+    } catch (error) {
+      console.warn('⚠️ Could not cache result:', error);
+    }
+  }
+
+  // Drops least recently used entries until both limits are met
+  private async prune(): Promise<void> {
+    const entries = await withStore<CachedResult[]>(STORES.resultCache, 'readonly', store => store.getAll()) || [];
+    entries.sort((a, b) => b.usedAt - a.usedAt);
+    let total = 0;
+    const stale = entries.filter((entry, index) => {
+      total += entry.size;
+      return index >= MAX_ENTRIES || total > MAX_BYTES;
+    });
+    if (stale.length === 0) return;
+    await withStore(STORES.resultCache, 'readwrite', store => {
+      stale.forEach(entry => store.delete(entry.key));
+    });
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await withStore(STORES.resultCache, 'readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('⚠️ Could not clear result cache:', error);
+    }
+  }
+}
+
+export const resultCache = new ResultCache();
@@ -0,0 +1,85 @@
+import { UpscaleCancelledError, UpscaleProviderError, throwIfCancelled } from './upscaleProvider';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try; 1 disables retries
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // 0-1, fraction of each delay that is randomised
+  maxRetryAfterMs: number; // Give up rather than wait longer than this for Retry-After
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  maxRetryAfterMs: 120000,
+};
+
+export interface RetryInfo {
+  attempt: number; // The attempt that is about to start
+  maxAttempts: number;
+  delayMs: number;
+  error: UpscaleProviderError;
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UpscaleCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Rate limits, server errors and timeouts are usually transient; everything
+// else (bad input, auth, billing) fails the same way on every attempt.
+export function isRetryable(error: unknown): error is UpscaleProviderError {
+  if (!(error instanceof UpscaleProviderError)) return false;
+  if (error.timedOut) return true;
+  return error.status === 429 || (error.status !== undefined && error.status >= 500 && error.status < 600);
+}
+
+// Exponential backoff with jitter, unless the server told us how long to wait
+export function getRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (1 - policy.jitter + Math.random() * policy.jitter));
+}
+
+// Runs `task` until it succeeds, throws something not worth retrying or runs
+// out of attempts. Waiting between attempts is cut short by the signal.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  options: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= policy.maxAttempts) throw error;
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxRetryAfterMs) throw error;
+
+      const delayMs = getRetryDelay(attempt, policy, error.retryAfterMs);
+      options.onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+      await sleep(delayMs, options.signal);
+      throwIfCancelled(options.signal);
+    }
+  }
+}
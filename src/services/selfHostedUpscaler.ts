@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { UpscaleCancelledError, UpscaleProviderError, isCancellation } from './upscaleProvider';
+import { parseRetryAfter } from './retryPolicy';
+import type { UpscaleErrorDetails, UpscaleOptions, UpscaleProgress, UpscaleProvider } from './upscaleProvider';
+
+// Talks to a self-hosted model server (e.g. Real-ESRGAN behind a small HTTP
+// wrapper). The server is expected to accept a multipart POST on
+// `${baseUrl}/upscale` with `image`, `scale` and `output_format` fields and
+// to respond with the upscaled image bytes.
+export class SelfHostedUpscaler implements UpscaleProvider {
+  readonly id = 'self-hosted';
+  readonly name = 'Self-hosted Model Server';
+  readonly description = 'Your own upscaling server, configured per deployment';
+  readonly free = true;
+
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, apiKey = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  isAvailable(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async upscaleImage(
+    imageFile: File,
+    options: UpscaleOptions,
+    onProgress?: (progress: UpscaleProgress) => void
+  ): Promise<Blob> {
+    try {
+      if (!this.baseUrl) {
+        throw new Error('Self-hosted upscaler URL is not configured.');
+      }
+
+      const formData = new FormData();
+      formData.append('image', imageFile);
+      formData.append('scale', String(options.scale));
+      formData.append('output_format', options.format || 'png');
+      if (options.quality !== undefined) {
+        formData.append('quality', String(options.quality));
+      }
+
+      onProgress?.({ progress: 10, status: 'processing', message: `Sending image to ${this.name}...` });
+
+      const headers: Record<string, string> = {
+        'Accept': 'image/*',
+        'Content-Type': 'multipart/form-data',
+      };
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await axios.post(`${this.baseUrl}/upscale`, formData, {
+        headers,
+        responseType: 'blob',
+        timeout: 120000,
+        signal: options.signal,
+        onUploadProgress: (progressEvent) => {
+          const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
+          onProgress?.({ progress: Math.min(progress * 0.3, 30), status: 'processing', message: 'Uploading...' });
+        },
+        onDownloadProgress: (progressEvent) => {
+          const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
+          onProgress?.({ progress: 30 + Math.min(progress * 0.7, 70), status: 'processing', message: 'Processing...' });
+        },
+      });
+
+      onProgress?.({ progress: 100, status: 'completed', message: 'Image upscaled successfully!' });
+
+      return response.data;
+    } catch (error) {
+      if (isCancellation(error)) {
+        onProgress?.({ progress: 0, status: 'cancelled', message: 'Upscale cancelled.' });
+        throw new UpscaleCancelledError();
+      }
+
+      console.error('🚨 Self-hosted upscaling error:', error);
+
+      let errorMessage = error instanceof Error ? error.message : 'Failed to upscale image. Please try again.';
+      let status: number | undefined;
+      const details: UpscaleErrorDetails = {};
+      if (axios.isAxiosError(error)) {
+        status = error.response?.status;
+        details.retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+        details.timedOut = error.code === 'ECONNABORTED';
+        if (error.code === 'ECONNABORTED') {
+          errorMessage = 'Request timed out. Please try with a smaller image.';
+        } else if (!error.response) {
+          errorMessage = 'Could not reach the self-hosted upscaling server.';
+        } else {
+          errorMessage = `Upscaler server error (${error.response.status}): ${error.response.statusText || error.message}`;
+        }
+      }
+
+      onProgress?.({ progress: 0, status: 'failed', message: errorMessage });
+      throw new UpscaleProviderError(errorMessage, status, details);
+    }
+  }
+}
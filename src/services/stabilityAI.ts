@@ -1,24 +1,90 @@
-import axios from 'axios';
+import axios, { AxiosProgressEvent } from 'axios';
+import { UpscaleCancelledError, UpscaleProviderError, isCancellation, throwIfCancelled } from './upscaleProvider';
+import { planTiles } from './tiledUpscale';
+import { prepareInput } from './prepareInput';
+import type { ImageDimensions } from '../lib/image';
+import { parseRetryAfter, sleep } from './retryPolicy';
+import type { InputLimits, UpscaleErrorDetails, UpscaleMode, UpscaleModeInfo, UpscaleOptions, UpscaleProgress, UpscaleProvider } from './upscaleProvider';
 
-const STABILITY_API_URL = 'https://api.stability.ai/v2beta/stable-image/upscale/fast';
+export type { UpscaleMode, UpscaleOptions, UpscaleProgress } from './upscaleProvider';
 
-export interface UpscaleOptions {
-  scale: number;
-  format?: 'jpeg' | 'png' | 'webp';
-  quality?: number;
-}
+const STABILITY_API_BASE_URL = 'https://api.stability.ai/v2beta';
+const STABILITY_UPSCALE_BASE_URL = `${STABILITY_API_BASE_URL}/stable-image/upscale`;
+
+// How often to poll the results endpoint for generative (async) upscales
+const RESULT_POLL_INTERVAL_MS = 5000;
+const RESULT_POLL_TIMEOUT_MS = 5 * 60 * 1000;
 
-export interface UpscaleProgress {
-  progress: number;
-  status: 'processing' | 'completed' | 'failed';
-  message?: string;
+interface StabilityModeDetails extends UpscaleModeInfo {
+  timeout: number;
+  async: boolean; // Starts a generation job that must be polled for the result
+  minPixels: number;
+  maxPixels: number;
+  minSide: number;
+  maxSide?: number;
+  maxOutputPixels: number;
+  fixedScale?: number; // Output is always this multiple of the input
+  creativity?: { min: number; max: number; default: number };
 }
 
-export class StabilityAIService {
+// Input/output limits as documented for the v2beta upscale endpoints
+const MODE_DETAILS: Record<UpscaleMode, StabilityModeDetails> = {
+  fast: {
+    id: 'fast',
+    name: 'Fast',
+    description: 'Quick 4x upscale, best for previews and web images',
+    timeout: 60000,
+    async: false,
+    minPixels: 1024,
+    maxPixels: 1048576,
+    minSide: 32,
+    maxSide: 1536,
+    maxOutputPixels: 1048576 * 16,
+    fixedScale: 4,
+  },
+  conservative: {
+    id: 'conservative',
+    name: 'Conservative',
+    description: 'Faithful upscale to ~4MP that preserves the original detail',
+    timeout: 120000,
+    async: false,
+    minPixels: 4096,
+    maxPixels: 9437184,
+    minSide: 64,
+    maxOutputPixels: 4194304,
+    creativity: { min: 0.2, max: 0.5, default: 0.35 },
+  },
+  creative: {
+    id: 'creative',
+    name: 'Creative',
+    description: 'Generative upscale to ~4MP that reimagines heavily degraded images',
+    timeout: 60000,
+    async: true,
+    minPixels: 4096,
+    maxPixels: 1048576,
+    minSide: 64,
+    maxOutputPixels: 4194304,
+    creativity: { min: 0.1, max: 0.5, default: 0.3 },
+  },
+};
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const DEFAULT_PROMPT = 'high quality, detailed, sharp, professional photography';
+
+export class StabilityAIService implements UpscaleProvider {
   private apiKey: string;
+  private defaultMode: UpscaleMode;
+
+  readonly id = 'stability';
+  readonly name = 'Stability AI';
+  readonly description = 'Cloud upscaling with fast, conservative and creative modes';
+  readonly modes: UpscaleModeInfo[] = Object.values(MODE_DETAILS).map(({ id, name, description }) => ({ id, name, description }));
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, defaultMode: UpscaleMode = 'fast') {
     this.apiKey = apiKey;
+    this.defaultMode = defaultMode;
     console.log('🔧 StabilityAI Service initialized');
     console.log('🔑 API Key present:', apiKey ? 'Yes' : 'No');
     console.log('🔑 API Key length:', apiKey?.length || 0);
@@ -29,6 +95,38 @@ export class StabilityAIService {
     }
   }
 
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  getInputLimits(mode: UpscaleMode | undefined, scale: number): InputLimits {
+    const details = MODE_DETAILS[mode || this.defaultMode];
+    // Modes without a fixed factor cap the output size, which in turn caps
+    // how much input one request may carry at this scale
+    const maxPixels = details.fixedScale
+      ? details.maxPixels
+      : Math.min(details.maxPixels, Math.floor(details.maxOutputPixels / (scale * scale)));
+
+    return {
+      minPixels: details.minPixels,
+      maxPixels,
+      minSide: details.minSide,
+      maxSide: details.maxSide,
+      maxFileSize: MAX_FILE_SIZE,
+      acceptedTypes: ACCEPTED_TYPES,
+    };
+  }
+
+  // Images over the per-request limits are still valid as long as they can be tiled
+  getValidModes(width: number, height: number, scale: number): UpscaleMode[] {
+    return (Object.keys(MODE_DETAILS) as UpscaleMode[]).filter(mode => {
+      const limits = this.getInputLimits(mode, scale);
+      if (width * height < limits.minPixels) return false;
+      if (Math.min(width, height) < limits.minSide) return false;
+      return limits.maxPixels >= limits.minPixels && Math.floor(Math.sqrt(limits.maxPixels)) >= limits.minSide;
+    });
+  }
+
   async upscaleImage(
     imageFile: File,
     options: UpscaleOptions,
@@ -40,43 +138,79 @@ export class StabilityAIService {
         throw new Error('Invalid file type. Please upload an image file.');
       }
 
-      // Check file size (max 10MB)
-      const maxSizeInBytes = 10 * 1024 * 1024;
-      if (imageFile.size > maxSizeInBytes) {
-        throw new Error('Image file size must be less than 10MB.');
+      const mode = options.mode || this.defaultMode;
+      const details = MODE_DETAILS[mode];
+
+      // Fit files over 10MB or in formats the API can't read instead of rejecting them
+      const prepared = await prepareInput(imageFile, this.getInputLimits(mode, options.scale || 1));
+      if (prepared.changes.length > 0) {
+        onProgress?.({ progress: 5, status: 'processing', message: `Adjusted image: ${prepared.changes.join('; ')}` });
       }
+      imageFile = prepared.file;
+      throwIfCancelled(options.signal);
 
-      // Prepare form data for v2beta fast upscaler API
+      // Prepare form data for v2beta upscaler API
       const formData = new FormData();
       formData.append('image', imageFile);
       formData.append('output_format', options.format || 'png');
       
-      // Add prompt for better quality (optional for fast upscaler)
-      if (options.scale) {
-        formData.append('prompt', 'high quality, detailed, sharp, professional photography');
+      // Prompt and creativity only apply to the generative modes
+      if (mode !== 'fast') {
+        formData.append('prompt', options.prompt || DEFAULT_PROMPT);
       }
+      if (details.creativity) {
+        const { min, max } = details.creativity;
+        const creativity = options.creativity ?? details.creativity.default;
+        formData.append('creativity', String(Math.min(max, Math.max(min, creativity))));
+      }
+
+      onProgress?.({ progress: 10, status: 'processing', message: `Sending image to Stability AI ${details.name} Upscaler...` });
+
+      const uploadProgress = (progressEvent: AxiosProgressEvent) => {
+        // Throttle progress updates to reduce resource usage
+        const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
+        if (progress % 20 === 0) { // Only update every 20%
+          onProgress?.({ 
+            progress: Math.min(progress * 0.3, 30), 
+            status: 'processing', 
+            message: 'Uploading...' 
+          });
+        }
+      };
+
+      if (details.async) {
+        // Creative mode returns a generation id that we poll until the image is ready
+        const startResponse = await axios.post(`${STABILITY_UPSCALE_BASE_URL}/${mode}`, formData, {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Accept': 'application/json',
+            'Content-Type': 'multipart/form-data',
+          },
+          timeout: details.timeout,
+          signal: options.signal,
+          onUploadProgress: uploadProgress,
+        });
+
+        const generationId: string = startResponse.data?.id;
+        if (!generationId) {
+          throw new Error('Stability AI did not return a generation id.');
+        }
 
-      onProgress?.({ progress: 10, status: 'processing', message: 'Sending image to Stability AI Fast Upscaler...' });
+        const result = await this.pollGenerationResult(generationId, onProgress, options.signal);
+        onProgress?.({ progress: 100, status: 'completed', message: 'Image upscaled successfully!' });
+        return result;
+      }
 
-      const response = await axios.post(STABILITY_API_URL, formData, {
+      const response = await axios.post(`${STABILITY_UPSCALE_BASE_URL}/${mode}`, formData, {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
           'Accept': 'image/*',
           'Content-Type': 'multipart/form-data',
         },
         responseType: 'blob',
-        timeout: 60000, // Increased timeout to 60 seconds for better reliability
-        onUploadProgress: (progressEvent) => {
-          // Throttle progress updates to reduce resource usage
-          const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
-          if (progress % 20 === 0) { // Only update every 20%
-            onProgress?.({ 
-              progress: Math.min(progress * 0.3, 30), 
-              status: 'processing', 
-              message: 'Uploading...' 
-            });
-          }
-        },
+        timeout: details.timeout,
+        signal: options.signal,
+        onUploadProgress: uploadProgress,
         onDownloadProgress: (progressEvent) => {
           // Throttle progress updates to reduce resource usage
           const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
@@ -90,15 +224,25 @@ export class StabilityAIService {
         },
       });
 
-      onProgress?.({ progress: 100, status: 'completed', message: 'Image fast upscaled successfully!' });
+      onProgress?.({ progress: 100, status: 'completed', message: 'Image upscaled successfully!' });
 
       return response.data;
     } catch (error) {
+      if (isCancellation(error)) {
+        onProgress?.({ progress: 0, status: 'cancelled', message: 'Upscale cancelled.' });
+        throw new UpscaleCancelledError();
+      }
+
       console.error('🚨 Stability AI upscaling error:', error);
       
       let errorMessage = 'Failed to upscale image. Please try again.';
+      let status: number | undefined;
+      const details: UpscaleErrorDetails = {};
       
       if (axios.isAxiosError(error)) {
+        status = error.response?.status;
+        details.retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+        details.timedOut = error.code === 'ECONNABORTED';
         console.log('📊 Error details:');
         console.log('  - Status:', error.response?.status);
         console.log('  - Status Text:', error.response?.statusText);
@@ -123,11 +267,53 @@ export class StabilityAIService {
         }
       } else {
         console.error('🌐 Network or other error:', error.message);
+        errorMessage = error.message || errorMessage;
       }
 
       onProgress?.({ progress: 0, status: 'failed', message: errorMessage });
-      throw new Error(errorMessage);
+      throw new UpscaleProviderError(errorMessage, status, details);
+    }
+  }
+
+  // Polls the results endpoint until the generation finishes. Stability only
+  // reports "in-progress" while the job runs, so progress is derived from the
+  // elapsed time against the typical generation time.
+  private async pollGenerationResult(
+    generationId: string,
+    onProgress?: (progress: UpscaleProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const startedAt = Date.now();
+    const expectedDurationMs = 60000;
+
+    while (Date.now() - startedAt < RESULT_POLL_TIMEOUT_MS) {
+      const response = await axios.get(`${STABILITY_API_BASE_URL}/results/${generationId}`, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Accept': 'image/*',
+        },
+        responseType: 'blob',
+        timeout: 30000,
+        signal,
+        validateStatus: (status) => status === 200 || status === 202,
+      });
+
+      if (response.status === 200) {
+        return response.data;
+      }
+
+      const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+      const generationProgress = Math.min((Date.now() - startedAt) / expectedDurationMs, 1);
+      onProgress?.({
+        progress: 30 + Math.round(generationProgress * 55),
+        status: 'processing',
+        message: `Generating upscale... (${elapsedSeconds}s elapsed)`,
+      });
+
+      await sleep(RESULT_POLL_INTERVAL_MS, signal);
     }
+
+    throw new Error('Timed out waiting for Stability AI to finish the upscale.');
   }
 
   async validateApiKey(): Promise<boolean> {
@@ -153,7 +339,7 @@ export class StabilityAIService {
       formData.append('prompt', 'test');
       formData.append('output_format', 'png');
 
-      await axios.post(STABILITY_API_URL, formData, {
+      await axios.post(`${STABILITY_UPSCALE_BASE_URL}/fast`, formData, {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
           'Accept': 'image/*',
@@ -179,18 +365,30 @@ export class StabilityAIService {
     });
   }
 
-  // Helper method to estimate credit cost based on image dimensions and scale
-  static estimateCreditCost(imageFile: File, scale: number): Promise<number> {
+  // Helper method to estimate credit cost based on image dimensions and scale.
+  // When input limits are given, oversized images are priced per tile since
+  // every tile is a separate billed request. `crop` is the size actually sent
+  // when only part of the image is upscaled.
+  static estimateCreditCost(imageFile: File, scale: number, limits?: InputLimits, crop?: ImageDimensions): Promise<number> {
+    const priceFor = (width: number, height: number) => {
+      const tiles: { width: number; height: number }[] = limits
+        ? planTiles(width, height, limits)
+        : [{ width, height }];
+
+      // Rough estimate: 1 credit per 1 megapixel of output, at least 1 per request
+      return tiles.reduce((total, tile) => {
+        const scaledPixels = tile.width * tile.height * scale * scale;
+        return total + Math.max(1, Math.ceil(scaledPixels / 1000000));
+      }, 0);
+    };
+
+    if (crop) {
+      return Promise.resolve(priceFor(crop.width, crop.height));
+    }
+
     return new Promise((resolve) => {
       const img = new Image();
-      img.onload = () => {
-        const pixels = img.width * img.height;
-        const scaledPixels = pixels * scale * scale;
-        
-        // Rough estimate: 1 credit per 1 megapixel of output
-        const credits = Math.max(1, Math.ceil(scaledPixels / 1000000));
-        resolve(credits);
-      };
+      img.onload = () => resolve(priceFor(img.width, img.height));
       img.onerror = () => resolve(1); // Default to 1 credit if we can't determine
       img.src = URL.createObjectURL(imageFile);
     });
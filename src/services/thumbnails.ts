@@ -0,0 +1,150 @@
+import { getImageDimensions, resampleImage } from '../lib/image';
+import type { ThumbnailRequest, ThumbnailResponse } from '../workers/thumbnail.worker';
+
+export const THUMBNAIL_SIZE = 256; // Short edge; sharp in the grids on 2x screens
+
+// Thumbnails are a few KB each, so plenty can stay around for scrolling back
+const MAX_CACHED_THUMBNAILS = 2000;
+
+interface ThumbnailJob {
+  load: () => Promise<Blob>;
+  waiters: number;
+  promise: Promise<Blob>;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerRequest {
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+function abortError(): Error {
+  return new DOMException('Thumbnail no longer needed.', 'AbortError');
+}
+
+// Makes small previews one at a time in a worker. Requests are queued by key
+// and can be withdrawn until they start, so a fast scroll through a large
+// batch only ends up decoding the images that stayed on screen.
+class ThumbnailService {
+  private cache = new Map<string, Blob>(); // In least recently used order
+  private jobs = new Map<string, ThumbnailJob>();
+  private queue: string[] = [];
+  private busy = false;
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private requests = new Map<number, WorkerRequest>();
+
+  // `load` is only called when the thumbnail actually has to be made, so it
+  // can fetch the image from storage lazily
+  get(key: string, load: () => Promise<Blob>, signal?: AbortSignal): Promise<Blob> {
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return Promise.resolve(cached);
+    }
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    let job = this.jobs.get(key);
+    if (!job) {
+      let resolve!: (blob: Blob) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<Blob>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      job = { load, waiters: 0, promise, resolve, reject };
+      this.jobs.set(key, job);
+      this.queue.push(key);
+    }
+
+    const current = job;
+    current.waiters++;
+    signal?.addEventListener('abort', () => {
+      current.waiters--;
+      const index = this.queue.indexOf(key);
+      if (current.waiters === 0 && index !== -1) {
+        this.queue.splice(index, 1);
+        this.jobs.delete(key);
+        current.reject(abortError());
+      }
+    }, { once: true });
+
+    this.pump();
+    return current.promise;
+  }
+
+  // Drops a thumbnail whose image has changed or gone
+  invalidate(key: string): void {
+    this.cache.delete(key);
+  }
+
+  private async pump(): Promise<void> {
+    if (this.busy || this.queue.length === 0) return;
+    const key = this.queue.shift()!;
+    const job = this.jobs.get(key)!;
+    this.busy = true;
+    try {
+      const thumbnail = await this.make(await job.load());
+      this.cache.set(key, thumbnail);
+      if (this.cache.size > MAX_CACHED_THUMBNAILS) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+      job.resolve(thumbnail);
+    } catch (error) {
+      job.reject(error instanceof Error ? error : new Error('Could not make thumbnail.'));
+    } finally {
+      this.jobs.delete(key);
+      this.busy = false;
+      this.pump();
+    }
+  }
+
+  private supportsWorker(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/thumbnail.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<ThumbnailResponse>) => {
+        const data = event.data;
+        const request = this.requests.get(data.id);
+        if (!request) return;
+        this.requests.delete(data.id);
+        if (data.type === 'result') {
+          request.resolve(data.blob);
+        } else {
+          request.reject(new Error(data.message));
+        }
+      };
+      this.worker.onerror = (event) => {
+        const error = new Error(event.message || 'Thumbnail worker crashed.');
+        this.requests.forEach(request => request.reject(error));
+        this.requests.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  private async make(blob: Blob): Promise<Blob> {
+    if (this.supportsWorker()) {
+      return new Promise((resolve, reject) => {
+        const id = this.nextRequestId++;
+        this.requests.set(id, { resolve, reject });
+        const request: ThumbnailRequest = { id, blob, size: THUMBNAIL_SIZE };
+        this.getWorker().postMessage(request);
+      });
+    }
+
+    // Older browsers: same result on the main thread
+    const { width, height } = await getImageDimensions(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.min(width, height));
+    return resampleImage(blob, Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)), 'webp', 0.8);
+  }
+}
+
+export const thumbnails = new ThumbnailService();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { needsTiling, planTiles } from './tiledUpscale';
+import type { Tile } from './tiledUpscale';
+import type { InputLimits } from './upscaleProvider';
+
+const limits: InputLimits = { minPixels: 1, maxPixels: 1000 * 1000, minSide: 1 };
+
+// Every source pixel must fall inside at least one tile
+function coversImage(tiles: Tile[], width: number, height: number): boolean {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!tiles.some(tile => x >= tile.x && x < tile.x + tile.width && y >= tile.y && y < tile.y + tile.height)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+describe('needsTiling', () => {
+  it('checks the pixel count and the longest side', () => {
+    expect(needsTiling({ width: 1000, height: 1000 }, limits)).toBe(false);
+    expect(needsTiling({ width: 1001, height: 1000 }, limits)).toBe(true);
+    expect(needsTiling({ width: 600, height: 100 }, { ...limits, maxSide: 500 })).toBe(true);
+  });
+});
+
+describe('planTiles', () => {
+  it('returns the whole image when it fits', () => {
+    expect(planTiles(800, 600, limits)).toEqual([{ x: 0, y: 0, width: 800, height: 600, overlapLeft: 0, overlapTop: 0 }]);
+  });
+
+  it('splits into overlapping tiles within the limits that cover the image', () => {
+    const tiles = planTiles(2500, 1200, limits);
+    expect(tiles).toHaveLength(6);
+    for (const tile of tiles) {
+      expect(tile.width * tile.height).toBeLessThanOrEqual(limits.maxPixels);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(2500);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(1200);
+    }
+    expect(coversImage(tiles, 2500, 1200)).toBe(true);
+  });
+
+  it('pins the last tile on each axis to the edge', () => {
+    const tiles = planTiles(2500, 1200, limits);
+    expect(Math.max(...tiles.map(tile => tile.x + tile.width))).toBe(2500);
+    expect(Math.max(...tiles.map(tile => tile.y + tile.height))).toBe(1200);
+  });
+
+  it('records the overlap with the previous tile in each direction', () => {
+    const tiles = planTiles(2500, 1200, limits);
+    const xs = [...new Set(tiles.map(tile => tile.x))];
+    const ys = [...new Set(tiles.map(tile => tile.y))];
+    for (const tile of tiles) {
+      const column = xs.indexOf(tile.x);
+      const row = ys.indexOf(tile.y);
+      expect(tile.overlapLeft).toBe(column > 0 ? xs[column - 1] + tile.width - tile.x : 0);
+      expect(tile.overlapTop).toBe(row > 0 ? ys[row - 1] + tile.height - tile.y : 0);
+      if (column > 0) expect(tile.overlapLeft).toBeGreaterThanOrEqual(32);
+      if (row > 0) expect(tile.overlapTop).toBeGreaterThanOrEqual(32);
+    }
+  });
+
+  it('respects maxSide on long, thin images', () => {
+    const tiles = planTiles(5000, 200, { ...limits, maxSide: 1024 });
+    expect(tiles.every(tile => tile.width <= 1024 && tile.height === 200)).toBe(true);
+    expect(coversImage(tiles, 5000, 200)).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+import { canvasToBlob, createCanvas, decodeImage, encodingQuality, MAX_CANVAS_DIMENSION } from '../lib/image';
+import type { ImageDimensions } from '../lib/image';
+import { throwIfCancelled } from './upscaleProvider';
+import type { InputLimits, UpscaleOptions, UpscaleProgress, UpscaleProvider } from './upscaleProvider';
+
+// Source pixels shared between neighbouring tiles; the seams are crossfaded
+// across this band so tile borders don't show in the output.
+const TILE_OVERLAP = 32;
+
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  overlapLeft: number;
+  overlapTop: number;
+}
+
+export function needsTiling(dimensions: ImageDimensions, limits: InputLimits): boolean {
+  const { width, height } = dimensions;
+  if (width * height > limits.maxPixels) return true;
+  return !!limits.maxSide && Math.max(width, height) > limits.maxSide;
+}
+
+// Positions along one axis: evenly stepped, with the last tile pinned to the edge
+function planAxis(length: number, tileLength: number, overlap: number): number[] {
+  if (length <= tileLength) return [0];
+  const step = Math.max(1, tileLength - overlap);
+  const positions: number[] = [];
+  for (let position = 0; position + tileLength < length; position += step) {
+    positions.push(position);
+  }
+  positions.push(length - tileLength);
+  return positions;
+}
+
+// Splits an image into the fewest overlapping tiles that each fit the limits
+export function planTiles(width: number, height: number, limits: InputLimits): Tile[] {
+  if (!needsTiling({ width, height }, limits)) {
+    return [{ x: 0, y: 0, width, height, overlapLeft: 0, overlapTop: 0 }];
+  }
+
+  let side = Math.floor(Math.sqrt(limits.maxPixels));
+  if (limits.maxSide) side = Math.min(side, limits.maxSide);
+  side = Math.max(side, limits.minSide, TILE_OVERLAP * 2);
+
+  const tileWidth = Math.min(side, width);
+  const tileHeight = Math.min(side, height);
+  const xs = planAxis(width, tileWidth, TILE_OVERLAP);
+  const ys = planAxis(height, tileHeight, TILE_OVERLAP);
+
+  const tiles: Tile[] = [];
+  ys.forEach((y, row) => {
+    xs.forEach((x, column) => {
+      tiles.push({
+        x,
+        y,
+        width: tileWidth,
+        height: tileHeight,
+        overlapLeft: column > 0 ? xs[column - 1] + tileWidth - x : 0,
+        overlapTop: row > 0 ? ys[row - 1] + tileHeight - y : 0,
+      });
+    });
+  });
+  return tiles;
+}
+
+// Fades the tile in across the bands it shares with tiles already drawn.
+// Drawing it "over" the canvas then gives a linear crossfade at every seam.
+function featherEdges(ctx: CanvasRenderingContext2D, width: number, height: number, left: number, top: number) {
+  ctx.globalCompositeOperation = 'destination-in';
+  if (left > 0) {
+    const gradient = ctx.createLinearGradient(0, 0, left, 0);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, 'rgba(0,0,0,1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  if (top > 0) {
+    const gradient = ctx.createLinearGradient(0, 0, 0, top);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, 'rgba(0,0,0,1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+// Upscales an image that exceeds the provider's input limits by sending it
+// tile by tile and stitching the results. Each tile's output is resized to
+// exactly `scale` times its source so the mosaic lines up even when the
+// provider's own factor varies with tile size.
+export async function upscaleTiled(
+  provider: UpscaleProvider,
+  imageFile: File,
+  source: ImageDimensions,
+  scale: number,
+  limits: InputLimits,
+  options: Omit<UpscaleOptions, 'scale'>,
+  onProgress?: (progress: UpscaleProgress) => void
+): Promise<Blob> {
+  const outputWidth = Math.round(source.width * scale);
+  const outputHeight = Math.round(source.height * scale);
+  if (outputWidth > MAX_CANVAS_DIMENSION || outputHeight > MAX_CANVAS_DIMENSION) {
+    throw new Error(`Output would be ${outputWidth}×${outputHeight}px, which exceeds the browser canvas limit.`);
+  }
+
+  const tiles = planTiles(source.width, source.height, limits);
+  const bitmap = await decodeImage(imageFile);
+  const [output, outputCtx] = createCanvas(outputWidth, outputHeight);
+
+  try {
+    for (let index = 0; index < tiles.length; index++) {
+      throwIfCancelled(options.signal);
+      const tile = tiles[index];
+      const tileLabel = `Tile ${index + 1}/${tiles.length}`;
+      const reportTile = (fraction: number, message: string) => {
+        onProgress?.({
+          progress: ((index + fraction) / tiles.length) * 100,
+          status: 'processing',
+          message: `${tileLabel}: ${message}`,
+        });
+      };
+
+      const [tileCanvas, tileCtx] = createCanvas(tile.width, tile.height);
+      tileCtx.drawImage(bitmap, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+      const tileBlob = await canvasToBlob(tileCanvas, 'png');
+      const tileFile = new File([tileBlob], `tile-${index + 1}.png`, { type: 'image/png' });
+
+      const upscaledTile = await provider.upscaleImage(tileFile, { ...options, scale }, (progressData) => {
+        if (progressData.status === 'processing') {
+          reportTile(progressData.progress / 100, progressData.message || 'Processing...');
+        }
+      });
+
+      // Snap tile edges to whole output pixels so neighbours meet without gaps
+      const left = Math.round(tile.x * scale);
+      const top = Math.round(tile.y * scale);
+      const width = Math.round((tile.x + tile.width) * scale) - left;
+      const height = Math.round((tile.y + tile.height) * scale) - top;
+
+      const tileBitmap = await decodeImage(upscaledTile);
+      const [placed, placedCtx] = createCanvas(width, height);
+      placedCtx.drawImage(tileBitmap, 0, 0, width, height);
+      tileBitmap.close();
+      featherEdges(placedCtx, width, height, Math.round(tile.overlapLeft * scale), Math.round(tile.overlapTop * scale));
+      outputCtx.drawImage(placed, left, top);
+
+      reportTile(1, 'Done');
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  const format = options.format || 'png';
+  return canvasToBlob(output, format, encodingQuality(format, options.quality, options.lossless));
+}
@@ -0,0 +1,375 @@
+import { encodeImage, getImageDimensions, resampleImage, ImageDimensions } from '../lib/image';
+import { preserveMetadata } from '../lib/preserveMetadata';
+import type { MetadataPolicy } from '../lib/preserveMetadata';
+import { measureQuality } from '../lib/qualityMetrics';
+import type { QualityMetrics } from '../lib/qualityMetrics';
+import { isCancellation, shouldFallBack, throwIfCancelled } from './upscaleProvider';
+import { needsTiling, upscaleTiled } from './tiledUpscale';
+import { prepareInput } from './prepareInput';
+import { resultCache } from './resultCache';
+import type { ResultCacheKey } from './resultCache';
+import { hashBlob } from '../lib/contentHash';
+import { DEFAULT_RETRY_POLICY, withRetry } from './retryPolicy';
+import type { RetryPolicy } from './retryPolicy';
+import type { OutputFormat, UpscaleOptions, UpscaleProgress, UpscaleProvider } from './upscaleProvider';
+
+// How the final output size is chosen: a plain multiplier, a box the image is
+// fitted into (aspect ratio preserved), a fixed length for the long edge, or
+// a paper size in inches printed at a given DPI.
+export type OutputSize =
+  | { type: 'scale'; scale: number }
+  | { type: 'fit'; width: number; height: number }
+  | { type: 'longEdge'; longEdge: number }
+  | { type: 'print'; width: number; height: number; dpi: number };
+
+export interface TargetSizePreset {
+  id: string;
+  label: string;
+  description: string;
+  size: OutputSize;
+}
+
+export const TARGET_SIZE_PRESETS: TargetSizePreset[] = [
+  { id: 'fhd', label: 'Full HD', description: 'Fit within 1920 × 1080', size: { type: 'fit', width: 1920, height: 1080 } },
+  { id: 'uhd', label: '4K UHD', description: 'Fit within 3840 × 2160', size: { type: 'fit', width: 3840, height: 2160 } },
+  { id: 'uhd8k', label: '8K UHD', description: 'Fit within 7680 × 4320', size: { type: 'fit', width: 7680, height: 4320 } },
+  { id: 'long4000', label: 'Long edge 4000px', description: 'Good for web galleries', size: { type: 'longEdge', longEdge: 4000 } },
+  { id: 'long6000', label: 'Long edge 6000px', description: 'Large prints and stock sites', size: { type: 'longEdge', longEdge: 6000 } },
+];
+
+export interface OutputFormatInfo {
+  id: OutputFormat;
+  label: string;
+  description: string;
+  lossy: boolean; // Whether quality applies
+  supportsLossless: boolean;
+}
+
+export const OUTPUT_FORMATS: OutputFormatInfo[] = [
+  { id: 'png', label: 'PNG', description: 'Lossless, largest files', lossy: false, supportsLossless: false },
+  { id: 'jpeg', label: 'JPEG', description: 'Smallest for photos, no transparency', lossy: true, supportsLossless: false },
+  { id: 'webp', label: 'WebP', description: 'Smaller than JPEG, keeps transparency', lossy: true, supportsLossless: true },
+  { id: 'avif', label: 'AVIF', description: 'Best compression, newer browsers only', lossy: true, supportsLossless: true },
+];
+
+export interface OutputEncoding {
+  format: OutputFormat;
+  quality: number; // 0-1
+  lossless: boolean;
+}
+
+export const DEFAULT_OUTPUT_ENCODING: OutputEncoding = { format: 'png', quality: 0.9, lossless: false };
+
+// The options actually sent for an encoding choice
+export function toFormatOptions(encoding: OutputEncoding): Pick<UpscaleOptions, 'format' | 'quality' | 'lossless'> {
+  const info = OUTPUT_FORMATS.find(item => item.id === encoding.format);
+  return {
+    format: encoding.format,
+    quality: info?.lossy ? encoding.quality : undefined,
+    lossless: info?.supportsLossless ? encoding.lossless : undefined,
+  };
+}
+
+export interface PaperSize {
+  id: string;
+  label: string;
+  description: string;
+  width: number; // Inches, portrait
+  height: number;
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: '4x6', label: '4 × 6 in', description: 'Standard photo print', width: 4, height: 6 },
+  { id: '5x7', label: '5 × 7 in', description: 'Small frame', width: 5, height: 7 },
+  { id: '8x10', label: '8 × 10 in', description: 'Classic frame size', width: 8, height: 10 },
+  { id: 'letter', label: 'US Letter', description: '8.5 × 11 in', width: 8.5, height: 11 },
+  { id: 'a4', label: 'A4', description: '210 × 297 mm', width: 8.27, height: 11.69 },
+  { id: 'a3', label: 'A3', description: '297 × 420 mm', width: 11.69, height: 16.54 },
+  { id: '11x14', label: '11 × 14 in', description: 'Large frame', width: 11, height: 14 },
+  { id: 'a2', label: 'A2 poster', description: '420 × 594 mm', width: 16.54, height: 23.39 },
+  { id: '18x24', label: '18 × 24 in poster', description: 'Medium poster', width: 18, height: 24 },
+  { id: '24x36', label: '24 × 36 in poster', description: 'Large poster', width: 24, height: 36 },
+];
+
+export const PRINT_DPI_OPTIONS = [
+  { value: 300, label: '300 DPI', description: 'Photo quality, viewed up close' },
+  { value: 240, label: '240 DPI', description: 'Fine art and inkjet prints' },
+  { value: 150, label: '150 DPI', description: 'Posters viewed from a distance' },
+];
+
+export interface OutputDimensions extends ImageDimensions {
+  scale: number; // Effective linear scale relative to the source
+}
+
+export function computeOutputDimensions(source: ImageDimensions, size: OutputSize): OutputDimensions {
+  let scale: number;
+  switch (size.type) {
+    case 'scale':
+      scale = size.scale;
+      break;
+    case 'fit':
+      scale = Math.min(size.width / source.width, size.height / source.height);
+      break;
+    case 'longEdge':
+      scale = size.longEdge / Math.max(source.width, source.height);
+      break;
+    case 'print': {
+      // Turn the paper to match the image so a landscape photo isn't shrunk to fit portrait
+      const landscape = source.width > source.height;
+      const paperWidth = landscape ? Math.max(size.width, size.height) : Math.min(size.width, size.height);
+      const paperHeight = landscape ? Math.min(size.width, size.height) : Math.max(size.width, size.height);
+      scale = Math.min((paperWidth * size.dpi) / source.width, (paperHeight * size.dpi) / source.height);
+      break;
+    }
+  }
+
+  return {
+    width: Math.max(1, Math.round(source.width * scale)),
+    height: Math.max(1, Math.round(source.height * scale)),
+    scale,
+  };
+}
+
+export interface UpscaleResult extends ImageDimensions {
+  blob: Blob;
+  scale: number;
+  passes: number;
+  providerId: string; // Provider that actually produced the image
+  usedFallback: boolean;
+  inputChanges: string[]; // Adjustments made so the source fit the provider
+  retries: number; // Requests repeated after transient errors
+  metadata: string[]; // Source metadata carried over to the output
+  quality?: QualityMetrics; // Only when requested and the measurement succeeded
+  cached: boolean; // Served from the local result cache; no provider was called
+}
+
+export interface PipelineOptions {
+  // Used instead when the chosen provider is unconfigured or answers 401/402
+  fallbackProvider?: UpscaleProvider | null;
+  maxPasses?: number;
+  retryPolicy?: RetryPolicy;
+  metadata?: MetadataPolicy; // What to copy from the source; defaults to everything
+  measureQuality?: boolean;
+  cache?: boolean; // Reuse and store results in the local result cache
+}
+
+// Providers are asked for the final format only when they can encode it
+// themselves; otherwise they return PNG and the pipeline encodes at the end
+function providerFormat(provider: UpscaleProvider, format: OutputFormat): OutputFormat {
+  return (provider.outputFormats || ['png']).includes(format) ? format : 'png';
+}
+
+// Most providers upscale by a fixed factor (Stability fast is always 4x,
+// conservative/creative aim for ~4MP), so to hit the requested size exactly
+// we chain provider passes while the output is still too small and the
+// provider accepts the intermediate result, then resample to the exact size.
+export async function upscaleToSize(
+  provider: UpscaleProvider,
+  imageFile: File,
+  size: OutputSize,
+  options: Omit<UpscaleOptions, 'scale'>,
+  onProgress?: (progress: UpscaleProgress) => void,
+  pipelineOptions: PipelineOptions = {}
+): Promise<UpscaleResult> {
+  const { fallbackProvider, maxPasses = 2, retryPolicy = DEFAULT_RETRY_POLICY, metadata = 'keep' } = pipelineOptions;
+  const { format = 'png', quality, lossless } = options;
+  const source = await getImageDimensions(imageFile);
+  const target = computeOutputDimensions(source, size);
+
+  // Keyed on the provider asked for, so a fallback result is never cached
+  // in its place
+  let cacheKey: ResultCacheKey | null = null;
+  if (pipelineOptions.cache) {
+    try {
+      cacheKey = {
+        hash: await hashBlob(imageFile),
+        providerId: provider.id,
+        mode: options.mode,
+        width: target.width,
+        height: target.height,
+        format,
+        quality,
+        lossless,
+        metadata,
+        dpi: size.type === 'print' ? size.dpi : undefined,
+      };
+      const cached = await resultCache.get(cacheKey);
+      if (cached) {
+        console.log(`♻️ Serving ${imageFile.name} from the result cache`);
+        onProgress?.({ progress: 100, status: 'completed', message: 'Loaded from cache. No credits used.' });
+        return { ...cached, retries: 0, cached: true };
+      }
+    } catch (error) {
+      console.warn('⚠️ Result cache lookup failed:', error);
+    }
+  }
+
+  let activeProvider = provider;
+  const switchToFallback = (reason: string) => {
+    activeProvider = fallbackProvider;
+    onProgress?.({ progress: 0, status: 'processing', message: `${reason} Switching to ${fallbackProvider.name}...` });
+  };
+
+  const canFallBack = () => !!fallbackProvider && activeProvider.id !== fallbackProvider.id;
+  if (!activeProvider.isAvailable() && canFallBack()) {
+    switchToFallback(`${provider.name} is not configured.`);
+  }
+
+  let current: File = imageFile;
+  let currentDimensions = source;
+  let passes = 0;
+  let retries = 0;
+  let lastProgress = 0;
+  const inputChanges: string[] = [];
+
+  // Every request (each tile included) is retried on its own, so a rate
+  // limit halfway through a tiled image doesn't redo the finished tiles
+  const withRetries = (target: UpscaleProvider): UpscaleProvider => ({
+    id: target.id,
+    name: target.name,
+    isAvailable: () => target.isAvailable(),
+    upscaleImage: (file, upscaleOptions, progressCallback) => withRetry(
+      () => target.upscaleImage(file, upscaleOptions, progressCallback),
+      retryPolicy,
+      {
+        signal: options.signal,
+        onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+          retries++;
+          onProgress?.({
+            progress: lastProgress,
+            status: 'processing',
+            message: `${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts})...`,
+            retry: { attempt, maxAttempts, delayMs, status: error.status },
+          });
+        },
+      }
+    ),
+  });
+
+  while (
+    passes < maxPasses &&
+    (currentDimensions.width < target.width || currentDimensions.height < target.height)
+  ) {
+    throwIfCancelled(options.signal);
+    let remainingScale = target.width / currentDimensions.width;
+
+    // Only the first pass is unconditional; later passes must fit the provider's limits
+    if (passes > 0 && options.mode && activeProvider.getValidModes) {
+      const validModes = activeProvider.getValidModes(currentDimensions.width, currentDimensions.height, remainingScale);
+      if (!validModes.includes(options.mode)) break;
+    }
+
+    // Oversized sources are tiled, but only on the first pass so a chained
+    // pass can't silently multiply the number of billed requests
+    const limits = activeProvider.getInputLimits?.(options.mode, remainingScale);
+    const tiled = !!limits && needsTiling(currentDimensions, limits);
+    if (tiled && passes > 0) break;
+
+    if (limits && !tiled && passes === 0) {
+      const prepared = await prepareInput(current, limits);
+      if (prepared.changes.length > 0) {
+        inputChanges.push(...prepared.changes);
+        onProgress?.({ progress: 0, status: 'processing', message: `Adjusted image: ${prepared.changes.join('; ')}` });
+        current = prepared.file;
+        currentDimensions = await getImageDimensions(current);
+        remainingScale = target.width / currentDimensions.width;
+      }
+    }
+
+    // The first pass gets most of the bar; extra passes share what is left before resizing
+    const passStart = passes === 0 ? 0 : 85 + (5 * (passes - 1)) / maxPasses;
+    const passSpan = passes === 0 ? 85 : 5 / maxPasses;
+    const passLabel = passes > 0 ? `Pass ${passes + 1}: ` : '';
+
+    const passProgress = (progressData: UpscaleProgress) => {
+      // Failures surface through the thrown error, which may still be recovered from
+      if (progressData.status === 'failed' || progressData.status === 'cancelled') return;
+      lastProgress = passStart + (progressData.progress / 100) * passSpan;
+      onProgress?.({
+        progress: lastProgress,
+        status: 'processing',
+        message: `${passLabel}${progressData.message || 'Processing...'}`,
+      });
+    };
+
+    let blob: Blob;
+    try {
+      const retrying = withRetries(activeProvider);
+      const passOptions = { ...options, format: providerFormat(activeProvider, format) };
+      blob = tiled
+        ? await upscaleTiled(retrying, current, currentDimensions, remainingScale, limits, passOptions, passProgress)
+        : await retrying.upscaleImage(current, { ...passOptions, scale: remainingScale }, passProgress);
+    } catch (error) {
+      if (isCancellation(error)) {
+        onProgress?.({ progress: 0, status: 'cancelled', message: 'Upscale cancelled.' });
+        throw error;
+      }
+      if (shouldFallBack(error) && canFallBack()) {
+        switchToFallback(error instanceof Error ? error.message : '');
+        continue; // Retry the same pass with the fallback provider
+      }
+      const message = error instanceof Error ? error.message : 'Processing failed';
+      onProgress?.({ progress: 0, status: 'failed', message });
+      throw error;
+    }
+
+    const nextDimensions = await getImageDimensions(blob);
+    passes++;
+    const grew = nextDimensions.width > currentDimensions.width;
+    current = new File([blob], imageFile.name, { type: blob.type });
+    currentDimensions = nextDimensions;
+    if (!grew) break;
+  }
+
+  throwIfCancelled(options.signal);
+  let result: Blob = current;
+  if (currentDimensions.width !== target.width || currentDimensions.height !== target.height) {
+    onProgress?.({
+      progress: 90,
+      status: 'processing',
+      message: `Resizing to exactly ${target.width} × ${target.height}px...`,
+    });
+    result = await resampleImage(current, target.width, target.height, format, quality, lossless);
+  }
+
+  if (result.type !== `image/${format}`) {
+    throwIfCancelled(options.signal);
+    onProgress?.({ progress: 95, status: 'processing', message: `Encoding as ${format.toUpperCase()}...` });
+    result = await encodeImage(result, format, quality, lossless);
+  }
+
+  const preserved = await preserveMetadata(imageFile, result, target, metadata, size.type === 'print' ? size.dpi : undefined);
+
+  // A report is a nice-to-have, so failing to measure doesn't fail the upscale
+  let report: QualityMetrics | undefined;
+  if (pipelineOptions.measureQuality) {
+    throwIfCancelled(options.signal);
+    onProgress?.({ progress: 98, status: 'processing', message: 'Measuring quality...' });
+    try {
+      report = await measureQuality(imageFile, result);
+    } catch (error) {
+      console.warn('⚠️ Could not measure output quality:', error);
+    }
+  }
+
+  onProgress?.({ progress: 100, status: 'completed', message: 'Image upscaled successfully!' });
+
+  const upscaled: UpscaleResult = {
+    blob: preserved.blob,
+    width: target.width,
+    height: target.height,
+    scale: target.scale,
+    passes,
+    providerId: activeProvider.id,
+    usedFallback: activeProvider.id !== provider.id,
+    inputChanges,
+    retries,
+    metadata: preserved.kept,
+    quality: report,
+    cached: false,
+  };
+  if (cacheKey && !upscaled.usedFallback) {
+    resultCache.put(cacheKey, upscaled);
+  }
+  return upscaled;
+}
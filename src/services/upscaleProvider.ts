@@ -0,0 +1,174 @@
+export type UpscaleMode = 'fast' | 'conservative' | 'creative';
+
+export interface UpscaleModeInfo {
+  id: UpscaleMode;
+  name: string;
+  description: string;
+}
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface UpscaleOptions {
+  scale: number;
+  format?: OutputFormat;
+  quality?: number; // 0-1, lossy formats only
+  lossless?: boolean; // WebP and AVIF only; PNG is always lossless
+  mode?: UpscaleMode;
+  prompt?: string;
+  creativity?: number; // 0-1, only used by generative modes
+  signal?: AbortSignal; // Aborts the in-flight request
+}
+
+// What a single request to a provider may contain. Larger images are tiled.
+export interface InputLimits {
+  minPixels: number;
+  maxPixels: number;
+  minSide: number;
+  maxSide?: number;
+  maxFileSize?: number; // Bytes
+  acceptedTypes?: string[]; // MIME types the provider decodes
+}
+
+export interface UpscaleProgress {
+  progress: number;
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  message?: string;
+  retry?: { attempt: number; maxAttempts: number; delayMs: number; status?: number }; // Set while waiting to retry
+}
+
+export interface UpscaleErrorDetails {
+  retryAfterMs?: number; // From the Retry-After header
+  timedOut?: boolean;
+}
+
+// Thrown by providers so callers can react to the HTTP status (e.g. fall back
+// to another provider on auth or billing failures, retry on 429/5xx) without
+// parsing messages.
+export class UpscaleProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly timedOut: boolean;
+
+  constructor(message: string, status?: number, details: UpscaleErrorDetails = {}) {
+    super(message);
+    this.name = 'UpscaleProviderError';
+    this.status = status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.timedOut = !!details.timedOut;
+  }
+}
+
+// Statuses that mean "this provider can't serve us right now, try another"
+const FALLBACK_STATUSES = [401, 402];
+
+export function shouldFallBack(error: unknown): boolean {
+  return error instanceof UpscaleProviderError && error.status !== undefined && FALLBACK_STATUSES.includes(error.status);
+}
+
+// Thrown when an upscale is aborted through `UpscaleOptions.signal`. Callers
+// treat it as a user action rather than a failure: no fallback, no error toast.
+export class UpscaleCancelledError extends Error {
+  constructor(message = 'Upscale cancelled.') {
+    super(message);
+    this.name = 'UpscaleCancelledError';
+  }
+}
+
+// Also recognises the errors axios and fetch raise for an aborted signal
+export function isCancellation(error: unknown): boolean {
+  if (error instanceof UpscaleCancelledError) return true;
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError');
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new UpscaleCancelledError();
+  }
+}
+
+// Common contract for every upscaling backend. Components only talk to this
+// interface, so transport details (REST, multipart, in-browser canvas) stay
+// inside the provider implementations.
+export interface UpscaleProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string;
+  readonly modes?: UpscaleModeInfo[]; // Omitted when the provider has a single behaviour
+  // Formats the provider encodes itself, honouring quality. Anything else is
+  // requested as PNG and re-encoded on the client. Defaults to PNG only.
+  readonly outputFormats?: OutputFormat[];
+  readonly free?: boolean; // Runs without spending credits
+
+  isAvailable(): boolean;
+
+  // Which modes can handle a source of this size at the requested scale
+  getValidModes?(width: number, height: number, scale: number): UpscaleMode[];
+
+  // Per-request input limits; omitted when the provider accepts any size
+  getInputLimits?(mode: UpscaleMode | undefined, scale: number): InputLimits;
+
+  upscaleImage(
+    imageFile: File,
+    options: UpscaleOptions,
+    onProgress?: (progress: UpscaleProgress) => void
+  ): Promise<Blob>;
+}
+
+export class UpscaleProviderRegistry {
+  private providers = new Map<string, UpscaleProvider>();
+  private defaultId: string | null = null;
+  private fallbackId: string | null = null;
+
+  register(provider: UpscaleProvider, options: { default?: boolean } = {}): this {
+    this.providers.set(provider.id, provider);
+    if (options.default || !this.defaultId) {
+      this.defaultId = provider.id;
+    }
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id?: string): UpscaleProvider {
+    const providerId = id || this.defaultId;
+    const provider = providerId ? this.providers.get(providerId) : undefined;
+    if (!provider) {
+      throw new Error(`Unknown upscale provider: ${providerId || '(none registered)'}`);
+    }
+    return provider;
+  }
+
+  getDefault(): UpscaleProvider {
+    return this.get();
+  }
+
+  setDefault(id: string): void {
+    if (!this.providers.has(id)) {
+      throw new Error(`Unknown upscale provider: ${id}`);
+    }
+    this.defaultId = id;
+  }
+
+  // Provider to switch to when the chosen one is unconfigured or rejects us
+  setFallback(id: string | null): void {
+    if (id && !this.providers.has(id)) {
+      throw new Error(`Unknown upscale provider: ${id}`);
+    }
+    this.fallbackId = id;
+  }
+
+  getFallback(): UpscaleProvider | null {
+    const provider = this.fallbackId ? this.providers.get(this.fallbackId) : undefined;
+    return provider && provider.isAvailable() ? provider : null;
+  }
+
+  list(): UpscaleProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  listAvailable(): UpscaleProvider[] {
+    return this.list().filter(provider => provider.isAvailable());
+  }
+}
@@ -0,0 +1,48 @@
+import { StabilityAIService, stabilityAI } from './stabilityAI';
+import { LocalUpscaler } from './localUpscaler';
+import { SelfHostedUpscaler } from './selfHostedUpscaler';
+import { UpscaleProviderRegistry } from './upscaleProvider';
+
+export type { UpscaleProvider } from './upscaleProvider';
+
+export interface UpscaleProvidersConfig {
+  stabilityApiKey?: string;
+  selfHostedUrl?: string;
+  selfHostedApiKey?: string;
+  defaultProviderId?: string;
+  fallbackProviderId?: string; // 'none' disables the automatic fallback
+  stability?: StabilityAIService; // Reuse an existing instance if one is already around
+}
+
+// Builds a registry with every backend we know about. Providers that are not
+// configured (missing key or URL) are still registered but report
+// isAvailable() === false, so the UI can hide them.
+export function createUpscaleProviders(config: UpscaleProvidersConfig): UpscaleProviderRegistry {
+  const registry = new UpscaleProviderRegistry()
+    .register(config.stability || new StabilityAIService(config.stabilityApiKey || ''))
+    .register(new LocalUpscaler())
+    .register(new SelfHostedUpscaler(config.selfHostedUrl || '', config.selfHostedApiKey || ''));
+
+  // Pick the configured default, falling back to the first usable provider
+  const preferredId = config.defaultProviderId;
+  if (preferredId && registry.has(preferredId)) {
+    registry.setDefault(preferredId);
+  } else {
+    registry.setDefault(registry.listAvailable()[0]?.id || 'stability');
+  }
+
+  const fallbackId = config.fallbackProviderId || 'local';
+  registry.setFallback(fallbackId === 'none' ? null : fallbackId);
+
+  return registry;
+}
+
+// Create a singleton registry for the browser
+export const upscaleProviders = createUpscaleProviders({
+  stabilityApiKey: import.meta.env.VITE_STABILITY_API_KEY || '',
+  selfHostedUrl: import.meta.env.VITE_UPSCALER_SERVER_URL || '',
+  selfHostedApiKey: import.meta.env.VITE_UPSCALER_SERVER_KEY || '',
+  defaultProviderId: import.meta.env.VITE_UPSCALE_PROVIDER || '',
+  fallbackProviderId: import.meta.env.VITE_UPSCALE_FALLBACK_PROVIDER || '',
+  stability: stabilityAI,
+});
@@ -0,0 +1,45 @@
+// Remote images are fetched through our API route because most hosts don't
+// send CORS headers that would let the browser read them directly
+
+interface ImportResponse {
+  image?: string; // Data URL
+  fileName?: string;
+  error?: string;
+}
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export async function importImageFromUrl(url: string, signal?: AbortSignal): Promise<File> {
+  if (!isHttpUrl(url)) {
+    throw new Error('Please enter a web address starting with http:// or https://');
+  }
+
+  const response = await fetch('/api/images/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url: url.trim() }),
+    signal,
+  });
+
+  let data: ImportResponse = {};
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON error pages fall through to the status message below
+  }
+  if (!response.ok || !data.image) {
+    throw new Error(data.error || `Could not import the image (HTTP ${response.status}).`);
+  }
+
+  const blob = await (await fetch(data.image)).blob();
+  return new File([blob], data.fileName || 'imported-image', { type: blob.type });
+}
@@ -0,0 +1,21 @@
+// The parts of libheif-js' bundled WASM build that we use; the package only
+// ships typings for the raw Emscripten module
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: ImageData, callback: (result: ImageData | null) => void): void;
+    free(): void;
+  }
+
+  interface HeifDecoder {
+    decode(data: ArrayBuffer | Uint8Array): HeifImage[];
+  }
+
+  interface LibHeif {
+    HeifDecoder: new () => HeifDecoder;
+  }
+
+  export default function createLibHeif(options?: Record<string, unknown>): LibHeif;
+}
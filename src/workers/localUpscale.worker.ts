@@ -0,0 +1,277 @@
+// Off-main-thread resampler used by LocalUpscaler. Decoding, filtering and
+// encoding all happen here so large images don't freeze the UI.
+
+export type ResampleFilter = 'lanczos' | 'bicubic';
+
+export interface LocalUpscaleRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  filter: ResampleFilter;
+  sharpen: number; // 0 disables the sharpen pass
+  format: 'png' | 'jpeg' | 'webp' | 'avif';
+  quality?: number;
+}
+
+export type LocalUpscaleResponse =
+  | { id: number; type: 'progress'; progress: number; message: string }
+  | { id: number; type: 'result'; blob: Blob }
+  | { id: number; type: 'error'; message: string };
+
+// DOM and WebWorker libs can't both be loaded in one program, so describe the
+// little bit of the worker scope we use by hand.
+const workerScope = self as unknown as {
+  postMessage(message: LocalUpscaleResponse): void;
+  onmessage: ((event: MessageEvent<LocalUpscaleRequest>) => void) | null;
+};
+
+const LANCZOS_LOBES = 3;
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function lanczos(x: number): number {
+  return Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0;
+}
+
+// Catmull-Rom flavoured bicubic (a = -0.5)
+function bicubic(x: number): number {
+  const a = -0.5;
+  const t = Math.abs(x);
+  if (t <= 1) return (a + 2) * t * t * t - (a + 3) * t * t + 1;
+  if (t < 2) return a * t * t * t - 5 * a * t * t + 8 * a * t - 4 * a;
+  return 0;
+}
+
+interface FilterWeights {
+  start: Int32Array;
+  count: Int32Array;
+  weights: Float32Array;
+  taps: number;
+}
+
+// Precomputes normalised kernel weights for every destination column/row
+function computeWeights(sourceSize: number, targetSize: number, filter: ResampleFilter): FilterWeights {
+  const kernel = filter === 'lanczos' ? lanczos : bicubic;
+  const support = filter === 'lanczos' ? LANCZOS_LOBES : 2;
+  const ratio = sourceSize / targetSize;
+  // Widen the kernel when shrinking so every source pixel contributes
+  const filterScale = Math.max(1, ratio);
+  const radius = support * filterScale;
+  const taps = Math.ceil(radius) * 2 + 1;
+
+  const start = new Int32Array(targetSize);
+  const count = new Int32Array(targetSize);
+  const weights = new Float32Array(targetSize * taps);
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) * ratio - 0.5;
+    const first = Math.max(0, Math.floor(center - radius));
+    const last = Math.min(sourceSize - 1, Math.ceil(center + radius));
+    let total = 0;
+    let n = 0;
+    for (let j = first; j <= last && n < taps; j++, n++) {
+      const w = kernel((j - center) / filterScale);
+      weights[i * taps + n] = w;
+      total += w;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < n; k++) weights[i * taps + k] /= total;
+    }
+    start[i] = first;
+    count[i] = n;
+  }
+
+  return { start, count, weights, taps };
+}
+
+// Output rows are made a strip at a time, each running the horizontal pass
+// over only the source rows it needs. A full intermediate buffer would be
+// targetWidth × sourceHeight × 16 bytes, over 1 GB for a 16K output.
+const STRIP_ROWS = 256;
+
+function resample(
+  source: Uint8ClampedArray,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  filter: ResampleFilter,
+  onRow: (fraction: number) => void
+): Uint8ClampedArray {
+  const horizontal = computeWeights(sourceWidth, targetWidth, filter);
+  const vertical = computeWeights(sourceHeight, targetHeight, filter);
+  const output = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+
+  for (let stripStart = 0; stripStart < targetHeight; stripStart += STRIP_ROWS) {
+    const stripEnd = Math.min(targetHeight, stripStart + STRIP_ROWS);
+    let firstRow = sourceHeight;
+    let endRow = 0;
+    for (let y = stripStart; y < stripEnd; y++) {
+      firstRow = Math.min(firstRow, vertical.start[y]);
+      endRow = Math.max(endRow, vertical.start[y] + vertical.count[y]);
+    }
+
+    // Horizontal pass into a float buffer so ringing isn't clipped twice
+    const intermediate = new Float32Array(targetWidth * (endRow - firstRow) * 4);
+    for (let y = firstRow; y < endRow; y++) {
+      const rowOffset = y * sourceWidth * 4;
+      for (let x = 0; x < targetWidth; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        const base = x * horizontal.taps;
+        for (let k = 0; k < horizontal.count[x]; k++) {
+          const w = horizontal.weights[base + k];
+          const p = rowOffset + (horizontal.start[x] + k) * 4;
+          r += source[p] * w;
+          g += source[p + 1] * w;
+          b += source[p + 2] * w;
+          a += source[p + 3] * w;
+        }
+        const o = ((y - firstRow) * targetWidth + x) * 4;
+        intermediate[o] = r;
+        intermediate[o + 1] = g;
+        intermediate[o + 2] = b;
+        intermediate[o + 3] = a;
+      }
+    }
+
+    for (let y = stripStart; y < stripEnd; y++) {
+      const base = y * vertical.taps;
+      for (let x = 0; x < targetWidth; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let k = 0; k < vertical.count[y]; k++) {
+          const w = vertical.weights[base + k];
+          const p = ((vertical.start[y] + k - firstRow) * targetWidth + x) * 4;
+          r += intermediate[p] * w;
+          g += intermediate[p + 1] * w;
+          b += intermediate[p + 2] * w;
+          a += intermediate[p + 3] * w;
+        }
+        const o = (y * targetWidth + x) * 4;
+        output[o] = r;
+        output[o + 1] = g;
+        output[o + 2] = b;
+        output[o + 3] = a;
+      }
+    }
+    onRow(stripEnd / targetHeight);
+  }
+
+  return output;
+}
+
+// Unsharp mask that is scaled by local gradient strength: edges get crisper
+// while flat areas (skies, skin) are left alone so noise isn't amplified.
+function edgeAwareSharpen(pixels: Uint8ClampedArray, width: number, height: number, amount: number): void {
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+  }
+
+  const blurred = new Float32Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const row = y * width;
+    const down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+      // 3x3 Gaussian (1 2 1 / 2 4 2 / 1 2 1)
+      blurred[row + x] = (
+        luma[up + left] + 2 * luma[up + x] + luma[up + right] +
+        2 * luma[row + left] + 4 * luma[row + x] + 2 * luma[row + right] +
+        luma[down + left] + 2 * luma[down + x] + luma[down + right]
+      ) / 16;
+    }
+  }
+
+  const edgeLow = 8;
+  const edgeHigh = 48;
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const row = y * width;
+    const down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+      const gx = luma[row + right] - luma[row + left];
+      const gy = luma[down + x] - luma[up + x];
+      const gradient = Math.sqrt(gx * gx + gy * gy);
+      const t = Math.min(1, Math.max(0, (gradient - edgeLow) / (edgeHigh - edgeLow)));
+      const weight = t * t * (3 - 2 * t);
+      if (weight === 0) continue;
+
+      const detail = (luma[row + x] - blurred[row + x]) * amount * weight;
+      const p = (row + x) * 4;
+      pixels[p] += detail;
+      pixels[p + 1] += detail;
+      pixels[p + 2] += detail;
+    }
+  }
+}
+
+// JPEG has no alpha: blend onto white like createCanvasFor in lib/image does,
+// rather than letting transparent areas encode as black. putImageData copies
+// alpha as-is, so a filled canvas underneath wouldn't help.
+function flattenOntoWhite(pixels: Uint8ClampedArray): void {
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3] / 255;
+    if (alpha === 1) continue;
+    pixels[i] = pixels[i] * alpha + 255 * (1 - alpha);
+    pixels[i + 1] = pixels[i + 1] * alpha + 255 * (1 - alpha);
+    pixels[i + 2] = pixels[i + 2] * alpha + 255 * (1 - alpha);
+    pixels[i + 3] = 255;
+  }
+}
+
+workerScope.onmessage = async (event) => {
+  const { id, bitmap, width, height, filter, sharpen, format, quality } = event.data;
+  const progress = (value: number, message: string) =>
+    workerScope.postMessage({ id, type: 'progress', progress: value, message });
+
+  try {
+    progress(15, 'Reading pixels...');
+    const sourceCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const sourceCtx = sourceCanvas.getContext('2d');
+    if (!sourceCtx) throw new Error('OffscreenCanvas 2D context is not available.');
+    sourceCtx.drawImage(bitmap, 0, 0);
+    const sourcePixels = sourceCtx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+    const sourceWidth = bitmap.width;
+    const sourceHeight = bitmap.height;
+    bitmap.close();
+
+    let lastReported = 0;
+    const pixels = resample(sourcePixels, sourceWidth, sourceHeight, width, height, filter, (fraction) => {
+      const value = 20 + Math.round(fraction * 55);
+      if (value - lastReported >= 5) {
+        lastReported = value;
+        progress(value, `Resampling (${filter === 'lanczos' ? 'Lanczos' : 'bicubic'})...`);
+      }
+    });
+
+    if (sharpen > 0) {
+      progress(80, 'Sharpening edges...');
+      edgeAwareSharpen(pixels, width, height, sharpen);
+    }
+
+    progress(90, 'Encoding...');
+    if (format === 'jpeg') flattenOntoWhite(pixels);
+    const outputCanvas = new OffscreenCanvas(width, height);
+    const outputCtx = outputCanvas.getContext('2d');
+    if (!outputCtx) throw new Error('OffscreenCanvas 2D context is not available.');
+    outputCtx.putImageData(new ImageData(pixels, width, height), 0, 0);
+    const blob = await outputCanvas.convertToBlob({ type: `image/${format}`, quality });
+
+    workerScope.postMessage({ id, type: 'result', blob });
+  } catch (error) {
+    workerScope.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Local upscaling failed.',
+    });
+  }
+};
@@ -0,0 +1,42 @@
+// Off-main-thread thumbnail maker used by the batch grids. Decoding a full
+// size photo is the expensive part, so it never happens on the UI thread.
+
+export interface ThumbnailRequest {
+  id: number;
+  blob: Blob;
+  size: number; // Target length of the short edge
+}
+
+export type ThumbnailResponse =
+  | { id: number; type: 'result'; blob: Blob }
+  | { id: number; type: 'error'; message: string };
+
+// DOM and WebWorker libs can't both be loaded in one program, so describe the
+// little bit of the worker scope we use by hand.
+const workerScope = self as unknown as {
+  postMessage(message: ThumbnailResponse): void;
+  onmessage: ((event: MessageEvent<ThumbnailRequest>) => void) | null;
+};
+
+workerScope.onmessage = async (event) => {
+  const { id, blob, size } = event.data;
+  try {
+    // Camera orientation is applied by the decoder, as it is for <img>
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, size / Math.min(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context is not available.');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    // WebP keeps transparency; browsers that can't write it fall back to PNG
+    workerScope.postMessage({ id, type: 'result', blob: await canvas.convertToBlob({ type: 'image/webp', quality: 0.8 }) });
+  } catch (error) {
+    workerScope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : 'Could not make thumbnail.' });
+  }
+};
@@ -19,4 +19,9 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The AVIF decoder loads its .wasm relative to its own module, which
+  // pre-bundling would break
+  optimizeDeps: {
+    exclude: ["@jsquash/avif"],
+  },
 }));